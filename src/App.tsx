@@ -3,8 +3,15 @@ import { Toaster } from "@/components/ui/toaster";
 import { Toaster as Sonner } from "@/components/ui/sonner";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
-import { BrowserRouter, Routes, Route } from "react-router-dom";
+import { BrowserRouter, Navigate, Routes, Route } from "react-router-dom";
+import { AuthProvider } from "./context/AuthContext";
 import { CartProvider } from "./context/CartContext";
+import { CatalogProvider } from "./context/CatalogContext";
+import { MerchandisingProvider } from "./context/MerchandisingContext";
+import { OrderProvider } from "./context/OrderContext";
+import { PaymentGatewayProvider } from "./context/PaymentContext";
+import { ReviewProvider } from "./context/ReviewContext";
+import { WishlistProvider } from "./context/WishlistContext";
 import Index from "./pages/Index";
 import Products from "./pages/Products";
 import ProductDetail from "./pages/ProductDetail";
@@ -13,30 +20,103 @@ import Checkout from "./pages/Checkout";
 import Login from "./pages/Login";
 import Register from "./pages/Register";
 import OrderSuccess from "./pages/OrderSuccess";
+import Account from "./pages/Account";
+import OrderHistory from "./pages/OrderHistory";
+import OrderDetail from "./pages/OrderDetail";
+import Wishlist from "./pages/Wishlist";
+import SizeGuide from "./pages/SizeGuide";
+import AdminProducts from "./pages/admin/AdminProducts";
+import AdminProductEditor from "./pages/admin/AdminProductEditor";
 import NotFound from "./pages/NotFound";
+import RequireAuth from "./components/RequireAuth";
 
 const queryClient = new QueryClient();
 
 const App = () => (
   <QueryClientProvider client={queryClient}>
     <TooltipProvider>
-      <CartProvider>
-        <Toaster />
-        <Sonner />
-        <BrowserRouter>
-          <Routes>
-            <Route path="/" element={<Index />} />
-            <Route path="/products" element={<Products />} />
-            <Route path="/product/:id" element={<ProductDetail />} />
-            <Route path="/cart" element={<Cart />} />
-            <Route path="/checkout" element={<Checkout />} />
-            <Route path="/login" element={<Login />} />
-            <Route path="/register" element={<Register />} />
-            <Route path="/order-success" element={<OrderSuccess />} />
-            <Route path="*" element={<NotFound />} />
-          </Routes>
-        </BrowserRouter>
-      </CartProvider>
+      <AuthProvider>
+        <CatalogProvider>
+          <MerchandisingProvider>
+            <OrderProvider>
+              <ReviewProvider>
+                <PaymentGatewayProvider>
+                  <CartProvider>
+                    <WishlistProvider>
+                      <Toaster />
+                      <Sonner />
+                      <BrowserRouter>
+                        <Routes>
+                          <Route path="/" element={<Index />} />
+                          <Route path="/products" element={<Products />} />
+                          <Route path="/product/:id" element={<ProductDetail />} />
+                          <Route path="/cart" element={<Cart />} />
+                          <Route path="/checkout" element={<Checkout />} />
+                          <Route path="/login" element={<Login />} />
+                          <Route path="/register" element={<Register />} />
+                          <Route path="/wishlist" element={<Wishlist />} />
+                          <Route path="/size-guide" element={<SizeGuide />} />
+                          <Route path="/order/:orderId/confirmation" element={<OrderSuccess />} />
+                          <Route
+                            path="/account"
+                            element={
+                              <RequireAuth>
+                                <Account />
+                              </RequireAuth>
+                            }
+                          />
+                          <Route
+                            path="/account/orders"
+                            element={
+                              <RequireAuth>
+                                <OrderHistory />
+                              </RequireAuth>
+                            }
+                          />
+                          <Route
+                            path="/account/orders/:id"
+                            element={
+                              <RequireAuth>
+                                <OrderDetail />
+                              </RequireAuth>
+                            }
+                          />
+                          <Route path="/admin" element={<Navigate to="/admin/products" replace />} />
+                          <Route
+                            path="/admin/products"
+                            element={
+                              <RequireAuth role="admin">
+                                <AdminProducts />
+                              </RequireAuth>
+                            }
+                          />
+                          <Route
+                            path="/admin/products/new"
+                            element={
+                              <RequireAuth role="admin">
+                                <AdminProductEditor />
+                              </RequireAuth>
+                            }
+                          />
+                          <Route
+                            path="/admin/products/:id/edit"
+                            element={
+                              <RequireAuth role="admin">
+                                <AdminProductEditor />
+                              </RequireAuth>
+                            }
+                          />
+                          <Route path="*" element={<NotFound />} />
+                        </Routes>
+                      </BrowserRouter>
+                    </WishlistProvider>
+                  </CartProvider>
+                </PaymentGatewayProvider>
+              </ReviewProvider>
+            </OrderProvider>
+          </MerchandisingProvider>
+        </CatalogProvider>
+      </AuthProvider>
     </TooltipProvider>
   </QueryClientProvider>
 );
@@ -0,0 +1,22 @@
+import React from 'react';
+import type { Address } from '@/lib/orders';
+
+const AddressBlock: React.FC<{ address: Address }> = ({ address }) => {
+  return (
+    <p className="text-gray-700">
+      {address.firstName} {address.lastName}
+      <br />
+      {address.address}
+      <br />
+      {[address.city, address.state].filter(Boolean).join(', ')} {address.zipCode}
+      {address.country && (
+        <>
+          <br />
+          {address.country}
+        </>
+      )}
+    </p>
+  );
+};
+
+export default AddressBlock;
@@ -0,0 +1,85 @@
+import React, { useState } from 'react';
+import { useCart } from '../context/CartContext';
+import { useCouponEvaluator } from '@/hooks/use-cart-pricing';
+import type { CouponEvaluation } from '@/lib/coupons';
+
+interface CouponInputProps {
+  // Result for the code currently applied to the cart, if any.
+  applied: CouponEvaluation | null;
+}
+
+const CouponInput: React.FC<CouponInputProps> = ({ applied }) => {
+  const { couponCode, applyCoupon, removeCoupon } = useCart();
+  const { evaluate, isPending } = useCouponEvaluator();
+  const [code, setCode] = useState('');
+  const [error, setError] = useState('');
+
+  const handleApply = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!code.trim() || isPending) return;
+
+    const result = evaluate(code);
+    if (result.status === 'rejected') {
+      setError(result.reason);
+      return;
+    }
+
+    applyCoupon(result.coupon.code);
+    setCode('');
+    setError('');
+  };
+
+  if (couponCode) {
+    return (
+      <div className="mb-6">
+        <div className="flex items-center justify-between bg-gray-50 border border-gray-200 rounded-lg px-3 py-2">
+          <div>
+            <p className="font-semibold text-black">{couponCode}</p>
+            {applied?.status === 'applied' && <p className="text-sm text-gray-600">{applied.coupon.description}</p>}
+          </div>
+          <button
+            onClick={removeCoupon}
+            className="text-red-600 hover:text-red-700 text-sm font-medium"
+          >
+            Remove
+          </button>
+        </div>
+        {applied?.status === 'rejected' && (
+          <p className="text-sm font-medium text-red-600 mt-2">{applied.reason}</p>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={handleApply} className="mb-6">
+      <label htmlFor="coupon-code" className="block text-sm font-medium text-gray-700 mb-2">
+        Promo Code
+      </label>
+      <div className="flex gap-2">
+        <input
+          id="coupon-code"
+          type="text"
+          value={code}
+          onChange={(e) => {
+            setCode(e.target.value.toUpperCase());
+            setError('');
+          }}
+          placeholder="Enter code"
+          aria-invalid={!!error}
+          className="flex-1 min-w-0 border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-transparent aria-[invalid=true]:border-red-500"
+        />
+        <button
+          type="submit"
+          disabled={isPending}
+          className="border-2 border-black text-black px-4 py-2 rounded-lg font-semibold hover:bg-black hover:text-white transition-colors disabled:opacity-60"
+        >
+          Apply
+        </button>
+      </div>
+      {error && <p className="text-sm font-medium text-red-600 mt-2">{error}</p>}
+    </form>
+  );
+};
+
+export default CouponInput;
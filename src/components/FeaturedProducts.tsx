@@ -1,29 +1,46 @@
-
 import React from 'react';
 import { Link } from 'react-router-dom';
 import ProductCard from './ProductCard';
-import { mockProducts } from '../utils/mockData';
+import { Skeleton } from '@/components/ui/skeleton';
+import { useActiveCollections } from '@/hooks/use-merchandising';
 
+// Renders every merchandising collection that is currently active, in configured order.
 const FeaturedProducts = () => {
-  const featuredProducts = mockProducts.slice(0, 4);
+  const { collections, isPending } = useActiveCollections();
+
+  if (!isPending && collections.length === 0) return null;
 
   return (
     <section className="py-16 bg-white">
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
-        <div className="text-center mb-12">
-          <h2 className="text-3xl lg:text-4xl font-bold text-black mb-4">
-            Featured Products
-          </h2>
-          <p className="text-xl text-gray-600 max-w-2xl mx-auto">
-            Handpicked premium shirts that combine style, comfort, and quality craftsmanship.
-          </p>
-        </div>
+        {isPending ? (
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-8 mb-12">
+            {Array.from({ length: 4 }, (_, index) => (
+              <Skeleton key={index} className="aspect-[3/4] rounded-xl" />
+            ))}
+          </div>
+        ) : (
+          collections.map(({ collection, products }) => (
+            <div key={collection.id} className="mb-16">
+              <div className="text-center mb-12">
+                <h2 className="text-3xl lg:text-4xl font-bold text-black mb-4">
+                  {collection.title}
+                </h2>
+                {collection.subtitle && (
+                  <p className="text-xl text-gray-600 max-w-2xl mx-auto">
+                    {collection.subtitle}
+                  </p>
+                )}
+              </div>
 
-        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-8 mb-12">
-          {featuredProducts.map((product) => (
-            <ProductCard key={product.id} product={product} />
-          ))}
-        </div>
+              <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-8">
+                {products.map((product) => (
+                  <ProductCard key={product.id} product={product} />
+                ))}
+              </div>
+            </div>
+          ))
+        )}
 
         <div className="text-center">
           <Link
@@ -1,33 +1,85 @@
 
 import React, { useState } from 'react';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Slider } from '@/components/ui/slider';
+import {
+  COLOR_FAMILY_SWATCHES,
+  type FacetValue,
+  type ProductFacets,
+  type ProductFilters,
+} from '@/lib/catalog';
 
 interface FilterPanelProps {
-  onFilterChange: (filters: any) => void;
+  facets: ProductFacets;
+  filters: ProductFilters;
+  onFilterChange: (filters: ProductFilters) => void;
+  onReset: () => void;
 }
 
-const FilterPanel: React.FC<FilterPanelProps> = ({ onFilterChange }) => {
-  const [filters, setFilters] = useState({
-    category: 'all',
-    size: 'all',
-    color: 'all',
-    priceRange: [0, 200],
-  });
+type ListFilterKey = 'categories' | 'sizes' | 'colors';
 
-  const handleFilterChange = (key: string, value: any) => {
-    const newFilters = { ...filters, [key]: value };
-    setFilters(newFilters);
-    onFilterChange(newFilters);
+interface FacetListProps {
+  title: string;
+  values: FacetValue[];
+  onToggle: (value: string, checked: boolean) => void;
+  renderLabel?: (value: FacetValue) => React.ReactNode;
+}
+
+const FacetList: React.FC<FacetListProps> = ({ title, values, onToggle, renderLabel }) => (
+  <fieldset className="mb-6">
+    <legend className="block text-sm font-medium text-gray-700 mb-3">{title}</legend>
+    <div className="space-y-2">
+      {values.map((facet) => {
+        const id = `facet-${title}-${facet.value}`.toLowerCase().replace(/\s+/g, '-');
+        const isDisabled = facet.count === 0 && !facet.selected;
+        return (
+          <label
+            key={facet.value}
+            htmlFor={id}
+            className={`flex items-center text-sm ${isDisabled ? 'text-gray-400' : 'text-gray-700 cursor-pointer'}`}
+          >
+            <Checkbox
+              id={id}
+              checked={facet.selected}
+              disabled={isDisabled}
+              onCheckedChange={(checked) => onToggle(facet.value, checked === true)}
+              className="mr-3"
+            />
+            <span className="flex-1 flex items-center">{renderLabel ? renderLabel(facet) : facet.label}</span>
+            <span className="text-gray-400">({facet.count})</span>
+          </label>
+        );
+      })}
+    </div>
+  </fieldset>
+);
+
+const FilterPanel: React.FC<FilterPanelProps> = ({ facets, filters, onFilterChange, onReset }) => {
+  const [minBound, maxBound] = facets.priceBounds;
+  // The slider moves freely while dragging; the filter is applied on release.
+  const [draftPrice, setDraftPrice] = useState<number[] | null>(null);
+  const selectedPrice = [
+    Math.max(minBound, filters.priceRange?.[0] ?? minBound),
+    Math.min(maxBound, filters.priceRange?.[1] ?? maxBound),
+  ];
+  const priceRange = draftPrice ?? selectedPrice;
+
+  const toggleValue = (key: ListFilterKey, value: string, checked: boolean) => {
+    const current = filters[key] ?? [];
+    const next = checked
+      ? [...current, value]
+      : current.filter(selected => selected.toLowerCase() !== value.toLowerCase());
+    onFilterChange({ ...filters, [key]: next.length > 0 ? next : undefined });
   };
 
-  const resetFilters = () => {
-    const defaultFilters = {
-      category: 'all',
-      size: 'all',
-      color: 'all',
-      priceRange: [0, 200],
-    };
-    setFilters(defaultFilters);
-    onFilterChange(defaultFilters);
+  const commitPrice = ([min, max]: number[]) => {
+    setDraftPrice(null);
+    // Ends pulled back to the bounds leave that side of the range open.
+    const range: [number, number] = [min <= minBound ? 0 : min, max >= maxBound ? Infinity : max];
+    onFilterChange({
+      ...filters,
+      priceRange: range[0] === 0 && range[1] === Infinity ? undefined : range,
+    });
   };
 
   return (
@@ -35,93 +87,55 @@ const FilterPanel: React.FC<FilterPanelProps> = ({ onFilterChange }) => {
       <div className="flex justify-between items-center mb-6">
         <h3 className="font-semibold text-lg">Filters</h3>
         <button
-          onClick={resetFilters}
+          onClick={onReset}
           className="text-blue-600 hover:text-blue-700 text-sm font-medium"
         >
           Reset
         </button>
       </div>
 
-      {/* Category Filter */}
-      <div className="mb-6">
-        <label className="block text-sm font-medium text-gray-700 mb-3">Category</label>
-        <select
-          value={filters.category}
-          onChange={(e) => handleFilterChange('category', e.target.value)}
-          className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-        >
-          <option value="all">All Categories</option>
-          <option value="formal">Formal</option>
-          <option value="casual">Casual</option>
-          <option value="business">Business</option>
-          <option value="premium">Premium</option>
-          <option value="summer">Summer</option>
-        </select>
-      </div>
+      <FacetList
+        title="Category"
+        values={facets.categories}
+        onToggle={(value, checked) => toggleValue('categories', value, checked)}
+      />
 
-      {/* Size Filter */}
-      <div className="mb-6">
-        <label className="block text-sm font-medium text-gray-700 mb-3">Size</label>
-        <select
-          value={filters.size}
-          onChange={(e) => handleFilterChange('size', e.target.value)}
-          className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-        >
-          <option value="all">All Sizes</option>
-          <option value="S">Small</option>
-          <option value="M">Medium</option>
-          <option value="L">Large</option>
-          <option value="XL">X-Large</option>
-          <option value="XXL">XX-Large</option>
-        </select>
-      </div>
+      <FacetList
+        title="Size"
+        values={facets.sizes}
+        onToggle={(value, checked) => toggleValue('sizes', value, checked)}
+      />
 
-      {/* Color Filter */}
-      <div className="mb-6">
-        <label className="block text-sm font-medium text-gray-700 mb-3">Color</label>
-        <select
-          value={filters.color}
-          onChange={(e) => handleFilterChange('color', e.target.value)}
-          className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-        >
-          <option value="all">All Colors</option>
-          <option value="white">White</option>
-          <option value="black">Black</option>
-          <option value="blue">Blue</option>
-          <option value="navy">Navy</option>
-          <option value="gray">Gray</option>
-          <option value="red">Red</option>
-          <option value="green">Green</option>
-        </select>
-      </div>
+      <FacetList
+        title="Color"
+        values={facets.colors}
+        onToggle={(value, checked) => toggleValue('colors', value, checked)}
+        renderLabel={(facet) => (
+          <>
+            <span
+              className="w-4 h-4 rounded-full border border-gray-300 mr-2"
+              style={{ backgroundColor: COLOR_FAMILY_SWATCHES[facet.value] ?? '#9ca3af' }}
+            />
+            {facet.label}
+          </>
+        )}
+      />
 
       {/* Price Range */}
       <div className="mb-6">
         <label className="block text-sm font-medium text-gray-700 mb-3">
-          Price Range: ${filters.priceRange[0]} - ${filters.priceRange[1]}
+          Price Range: ${priceRange[0]} - ${priceRange[1]}
         </label>
-        <div className="space-y-3">
-          <input
-            type="range"
-            min="0"
-            max="200"
-            value={filters.priceRange[0]}
-            onChange={(e) => 
-              handleFilterChange('priceRange', [parseInt(e.target.value), filters.priceRange[1]])
-            }
-            className="w-full"
-          />
-          <input
-            type="range"
-            min="0"
-            max="200"
-            value={filters.priceRange[1]}
-            onChange={(e) => 
-              handleFilterChange('priceRange', [filters.priceRange[0], parseInt(e.target.value)])
-            }
-            className="w-full"
-          />
-        </div>
+        <Slider
+          min={minBound}
+          max={maxBound}
+          step={1}
+          minStepsBetweenThumbs={1}
+          value={priceRange}
+          onValueChange={setDraftPrice}
+          onValueCommit={commitPrice}
+          disabled={minBound === maxBound}
+        />
       </div>
     </div>
   );
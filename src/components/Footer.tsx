@@ -35,7 +35,7 @@ const Footer = () => {
               <li><a href="#" className="text-gray-300 hover:text-white transition-colors">Contact Us</a></li>
               <li><a href="#" className="text-gray-300 hover:text-white transition-colors">Shipping Info</a></li>
               <li><a href="#" className="text-gray-300 hover:text-white transition-colors">Returns</a></li>
-              <li><a href="#" className="text-gray-300 hover:text-white transition-colors">Size Guide</a></li>
+              <li><Link to="/size-guide" className="text-gray-300 hover:text-white transition-colors">Size Guide</Link></li>
             </ul>
           </div>
         </div>
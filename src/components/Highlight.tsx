@@ -0,0 +1,23 @@
+import React from 'react';
+import { highlightMatches } from '@/lib/search';
+
+interface HighlightProps {
+  text: string;
+  terms: string[];
+}
+
+const Highlight: React.FC<HighlightProps> = ({ text, terms }) => (
+  <>
+    {highlightMatches(text, terms).map((segment, index) =>
+      segment.match ? (
+        <mark key={index} className="bg-yellow-100 text-inherit rounded-sm">
+          {segment.text}
+        </mark>
+      ) : (
+        <React.Fragment key={index}>{segment.text}</React.Fragment>
+      )
+    )}
+  </>
+);
+
+export default Highlight;
@@ -0,0 +1,22 @@
+import React from 'react';
+
+interface LoadErrorProps {
+  message: string;
+  onRetry: () => void;
+}
+
+const LoadError: React.FC<LoadErrorProps> = ({ message, onRetry }) => {
+  return (
+    <div className="text-center py-12">
+      <p className="text-gray-500 text-lg mb-4">{message}</p>
+      <button
+        onClick={onRetry}
+        className="bg-blue-600 text-white px-6 py-3 rounded-lg font-semibold hover:bg-blue-700 transition-colors"
+      >
+        Try Again
+      </button>
+    </div>
+  );
+};
+
+export default LoadError;
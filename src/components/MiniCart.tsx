@@ -0,0 +1,169 @@
+import React, { useEffect, ReactNode } from 'react';
+import { Link, useLocation } from 'react-router-dom';
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from '@/components/ui/sheet';
+import { Progress } from '@/components/ui/progress';
+import { useCart } from '../context/CartContext';
+import { useCartPricing } from '@/hooks/use-cart-pricing';
+import { checkoutDefaultRegion } from '@/lib/checkout';
+import { formatCents } from '@/lib/money';
+import { getFreeShippingProgress } from '@/lib/shipping';
+
+// The full cart and checkout already show everything the mini-cart would.
+const HIDDEN_ON = ['/cart', '/checkout'];
+
+interface MiniCartTriggerProps {
+  className?: string;
+  'aria-label'?: string;
+  onClick?: () => void;
+  children: ReactNode;
+}
+
+// Opens the mini-cart, or links to the full cart on the pages where the mini-cart is hidden.
+export const MiniCartTrigger: React.FC<MiniCartTriggerProps> = ({ onClick, children, ...props }) => {
+  const { setMiniCartOpen } = useCart();
+  const location = useLocation();
+
+  if (HIDDEN_ON.includes(location.pathname)) {
+    return (
+      <Link to="/cart" onClick={onClick} {...props}>
+        {children}
+      </Link>
+    );
+  }
+
+  return (
+    <button
+      onClick={() => {
+        onClick?.();
+        setMiniCartOpen(true);
+      }}
+      {...props}
+    >
+      {children}
+    </button>
+  );
+};
+
+const MiniCart = () => {
+  const { cartItems, updateQuantity, removeFromCart, isMiniCartOpen, setMiniCartOpen } = useCart();
+  const { pricing, coupon } = useCartPricing({ region: checkoutDefaultRegion });
+  const location = useLocation();
+  const isHidden = HIDDEN_ON.includes(location.pathname);
+  const pricedLines = new Map(pricing.lines.map(line => [line.lineId, line]));
+  const itemCount = cartItems.reduce((total, item) => total + item.quantity, 0);
+  const discountedSubtotal = pricing.subtotal - pricing.discountTotal;
+  const freeShipping = getFreeShippingProgress(discountedSubtotal);
+  const couponShipsFree = coupon?.status === 'applied' && coupon.freeShipping;
+
+  useEffect(() => {
+    if (isHidden && isMiniCartOpen) setMiniCartOpen(false);
+  }, [isHidden, isMiniCartOpen, setMiniCartOpen]);
+
+  const close = () => setMiniCartOpen(false);
+
+  return (
+    <Sheet open={isMiniCartOpen && !isHidden} onOpenChange={setMiniCartOpen}>
+      <SheetContent className="flex flex-col w-full sm:max-w-md">
+        <SheetHeader>
+          <SheetTitle>Your Cart ({itemCount})</SheetTitle>
+          <SheetDescription className="sr-only">Review and edit the items in your cart</SheetDescription>
+        </SheetHeader>
+
+        {cartItems.length === 0 ? (
+          <div className="flex-1 flex flex-col items-center justify-center text-center">
+            <p className="text-gray-600 mb-6">Your cart is empty</p>
+            <Link
+              to="/products"
+              onClick={close}
+              className="bg-blue-600 text-white px-6 py-3 rounded-lg font-semibold hover:bg-blue-700 transition-colors"
+            >
+              Continue Shopping
+            </Link>
+          </div>
+        ) : (
+          <>
+            {freeShipping && (
+              <div className="rounded-lg bg-gray-50 p-4">
+                <p className="text-sm text-gray-700 mb-2">
+                  {couponShipsFree || freeShipping.remaining === 0
+                    ? 'You have unlocked free standard shipping!'
+                    : `Add ${formatCents(freeShipping.remaining)} more for free standard shipping`}
+                </p>
+                <Progress value={couponShipsFree ? 100 : freeShipping.percent} className="h-2" />
+              </div>
+            )}
+
+            <div className="flex-1 overflow-y-auto divide-y -mx-6 px-6">
+              {cartItems.map((item) => (
+                <div key={item.lineId} className="flex gap-4 py-4">
+                  <img src={item.image} alt={item.name} className="w-16 h-16 object-cover rounded-lg" />
+                  <div className="flex-1 min-w-0">
+                    <Link
+                      to={`/product/${item.id}`}
+                      onClick={close}
+                      className="font-semibold text-black hover:text-blue-600 block truncate"
+                    >
+                      {item.name}
+                    </Link>
+                    <p className="text-sm text-gray-600">{item.size} | {item.color}</p>
+                    <div className="flex items-center justify-between mt-2">
+                      <div className="flex items-center space-x-2">
+                        <button
+                          onClick={() => updateQuantity(item.lineId, item.quantity - 1)}
+                          aria-label={`Decrease quantity of ${item.name}`}
+                          className="w-7 h-7 border border-gray-300 rounded flex items-center justify-center hover:bg-gray-50"
+                        >
+                          -
+                        </button>
+                        <span className="font-semibold w-6 text-center">{item.quantity}</span>
+                        <button
+                          onClick={() => updateQuantity(item.lineId, item.quantity + 1)}
+                          disabled={item.maxQuantity !== undefined && item.quantity >= item.maxQuantity}
+                          aria-label={`Increase quantity of ${item.name}`}
+                          className="w-7 h-7 border border-gray-300 rounded flex items-center justify-center hover:bg-gray-50 disabled:opacity-40 disabled:cursor-not-allowed"
+                        >
+                          +
+                        </button>
+                      </div>
+                      <span className="font-semibold">{formatCents(pricedLines.get(item.lineId)?.lineTotal ?? 0)}</span>
+                    </div>
+                    <button
+                      onClick={() => removeFromCart(item.lineId)}
+                      className="text-red-600 hover:text-red-700 text-sm font-medium mt-1"
+                    >
+                      Remove
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+
+            <div className="border-t pt-4 space-y-3">
+              <div className="flex justify-between text-lg font-bold">
+                <span>Subtotal</span>
+                <span>{formatCents(discountedSubtotal)}</span>
+              </div>
+              <p className="text-sm text-gray-500">Shipping and taxes are calculated at checkout.</p>
+              <Link
+                to="/checkout"
+                onClick={close}
+                className="w-full bg-black text-white py-3 rounded-lg font-semibold hover:bg-gray-800 transition-colors text-center block"
+              >
+                Checkout
+              </Link>
+              <Link
+                to="/cart"
+                onClick={close}
+                className="w-full border-2 border-gray-300 text-gray-700 py-3 rounded-lg font-semibold hover:bg-gray-50 transition-colors text-center block"
+              >
+                View Cart
+              </Link>
+            </div>
+          </>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+};
+
+export default MiniCart;
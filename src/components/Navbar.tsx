@@ -1,18 +1,41 @@
 
 import React, { useState } from 'react';
-import { Link, useLocation } from 'react-router-dom';
-import { ShoppingCart } from 'lucide-react';
+import { Link, useLocation, useNavigate } from 'react-router-dom';
+import { Heart, ShoppingCart, User } from 'lucide-react';
 import { useCart } from '../context/CartContext';
+import { useAuth } from '../context/AuthContext';
+import { useWishlist } from '../context/WishlistContext';
+import ProductSearch from './ProductSearch';
+import MiniCart, { MiniCartTrigger } from './MiniCart';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { toast } from 'sonner';
 
 const Navbar = () => {
   const [isMenuOpen, setIsMenuOpen] = useState(false);
   const { cartItems } = useCart();
+  const { currentUser, logout } = useAuth();
+  const { items: wishlistItems } = useWishlist();
   const location = useLocation();
+  const navigate = useNavigate();
 
   const cartItemsCount = cartItems.reduce((total, item) => total + item.quantity, 0);
 
   const isActive = (path: string) => location.pathname === path;
 
+  const handleLogout = async () => {
+    setIsMenuOpen(false);
+    await logout();
+    toast.success('You have been signed out');
+    navigate('/');
+  };
+
   return (
     <nav className="bg-white shadow-sm border-b sticky top-0 z-50">
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
@@ -24,6 +47,7 @@ const Navbar = () => {
 
           {/* Desktop Navigation */}
           <div className="hidden md:flex items-center space-x-8">
+            <ProductSearch className="w-56" />
             <Link 
               to="/" 
               className={`font-medium transition-colors ${
@@ -40,16 +64,51 @@ const Navbar = () => {
             >
               Products
             </Link>
-            <Link 
-              to="/login" 
-              className={`font-medium transition-colors ${
-                isActive('/login') ? 'text-blue-600' : 'text-gray-700 hover:text-blue-600'
-              }`}
+            {currentUser ? (
+              <DropdownMenu>
+                <DropdownMenuTrigger className="flex items-center font-medium text-gray-700 hover:text-blue-600 transition-colors focus:outline-none">
+                  <User size={20} className="mr-2" />
+                  {currentUser.firstName}
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end" className="w-56">
+                  <DropdownMenuLabel>
+                    <p className="font-semibold">{currentUser.firstName} {currentUser.lastName}</p>
+                    <p className="text-xs font-normal text-gray-500 truncate">{currentUser.email}</p>
+                  </DropdownMenuLabel>
+                  <DropdownMenuSeparator />
+                  <DropdownMenuItem onSelect={() => navigate('/account')}>My Account</DropdownMenuItem>
+                  <DropdownMenuItem onSelect={() => navigate('/account/orders')}>My Orders</DropdownMenuItem>
+                  {currentUser.role === 'admin' && (
+                    <DropdownMenuItem onSelect={() => navigate('/admin')}>Manage Catalog</DropdownMenuItem>
+                  )}
+                  <DropdownMenuSeparator />
+                  <DropdownMenuItem onSelect={handleLogout}>Sign Out</DropdownMenuItem>
+                </DropdownMenuContent>
+              </DropdownMenu>
+            ) : (
+              <Link 
+                to="/login" 
+                className={`font-medium transition-colors ${
+                  isActive('/login') ? 'text-blue-600' : 'text-gray-700 hover:text-blue-600'
+                }`}
+              >
+                Login
+              </Link>
+            )}
+            <Link
+              to="/wishlist"
+              aria-label="Wishlist"
+              className="relative p-2 text-gray-700 hover:text-blue-600 transition-colors"
             >
-              Login
+              <Heart size={24} />
+              {wishlistItems.length > 0 && (
+                <span className="absolute -top-1 -right-1 bg-blue-600 text-white text-xs rounded-full h-5 w-5 flex items-center justify-center">
+                  {wishlistItems.length}
+                </span>
+              )}
             </Link>
-            <Link 
-              to="/cart" 
+            <MiniCartTrigger
+              aria-label="Cart"
               className="relative p-2 text-gray-700 hover:text-blue-600 transition-colors"
             >
               <ShoppingCart size={24} />
@@ -58,7 +117,7 @@ const Navbar = () => {
                   {cartItemsCount}
                 </span>
               )}
-            </Link>
+            </MiniCartTrigger>
           </div>
 
           {/* Mobile menu button */}
@@ -76,17 +135,39 @@ const Navbar = () => {
         {isMenuOpen && (
           <div className="md:hidden py-4 border-t">
             <div className="flex flex-col space-y-4">
+              <ProductSearch shortcut={false} />
               <Link to="/" className="text-gray-700 hover:text-blue-600 font-medium">Home</Link>
               <Link to="/products" className="text-gray-700 hover:text-blue-600 font-medium">Products</Link>
-              <Link to="/login" className="text-gray-700 hover:text-blue-600 font-medium">Login</Link>
-              <Link to="/cart" className="flex items-center text-gray-700 hover:text-blue-600 font-medium">
+              {currentUser ? (
+                <>
+                  <Link to="/account" className="text-gray-700 hover:text-blue-600 font-medium">My Account</Link>
+                  <Link to="/account/orders" className="text-gray-700 hover:text-blue-600 font-medium">My Orders</Link>
+                  {currentUser.role === 'admin' && (
+                    <Link to="/admin" className="text-gray-700 hover:text-blue-600 font-medium">Manage Catalog</Link>
+                  )}
+                  <button onClick={handleLogout} className="text-left text-gray-700 hover:text-blue-600 font-medium">
+                    Sign Out
+                  </button>
+                </>
+              ) : (
+                <Link to="/login" className="text-gray-700 hover:text-blue-600 font-medium">Login</Link>
+              )}
+              <Link to="/wishlist" className="flex items-center text-gray-700 hover:text-blue-600 font-medium">
+                <Heart size={20} className="mr-2" />
+                Wishlist ({wishlistItems.length})
+              </Link>
+              <MiniCartTrigger
+                onClick={() => setIsMenuOpen(false)}
+                className="flex items-center text-gray-700 hover:text-blue-600 font-medium"
+              >
                 <ShoppingCart size={20} className="mr-2" />
                 Cart ({cartItemsCount})
-              </Link>
+              </MiniCartTrigger>
             </div>
           </div>
         )}
       </div>
+      <MiniCart />
     </nav>
   );
 };
@@ -0,0 +1,22 @@
+import React from 'react';
+import { Badge } from '@/components/ui/badge';
+import { ORDER_STATUS_LABELS, type OrderStatus } from '@/lib/orders';
+
+const statusClasses: Record<OrderStatus, string> = {
+  pending: 'bg-yellow-100 text-yellow-800',
+  confirmed: 'bg-blue-100 text-blue-800',
+  processing: 'bg-indigo-100 text-indigo-800',
+  shipped: 'bg-purple-100 text-purple-800',
+  delivered: 'bg-green-100 text-green-800',
+  cancelled: 'bg-red-100 text-red-800',
+};
+
+const OrderStatusBadge: React.FC<{ status: OrderStatus }> = ({ status }) => {
+  return (
+    <Badge variant="outline" className={`border-transparent ${statusClasses[status]}`}>
+      {ORDER_STATUS_LABELS[status]}
+    </Badge>
+  );
+};
+
+export default OrderStatusBadge;
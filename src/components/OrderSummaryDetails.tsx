@@ -0,0 +1,45 @@
+import React from 'react';
+import type { Order } from '@/lib/orders';
+import { formatCents } from '@/lib/money';
+import PriceSummary from './PriceSummary';
+
+interface OrderSummaryDetailsProps {
+  order: Order;
+}
+
+const OrderSummaryDetails: React.FC<OrderSummaryDetailsProps> = ({ order }) => {
+  const { totals } = order;
+
+  return (
+    <>
+      <div className="space-y-4 mb-6">
+        {order.items.map((item) => (
+          <div key={item.lineId} className="flex items-center space-x-4">
+            <img
+              src={item.image}
+              alt={item.name}
+              className="w-16 h-16 object-cover rounded-lg"
+            />
+            <div className="flex-1">
+              <h3 className="font-medium">{item.name}</h3>
+              <p className="text-sm text-gray-600">
+                {item.size} | {item.color} | Qty: {item.quantity}
+              </p>
+            </div>
+            <p className="font-semibold">{formatCents(item.lineTotal)}</p>
+          </div>
+        ))}
+      </div>
+
+      <PriceSummary
+        subtotal={totals.subtotal}
+        discounts={totals.discounts}
+        shipping={totals.shipping}
+        tax={totals.tax}
+        total={totals.total}
+      />
+    </>
+  );
+};
+
+export default OrderSummaryDetails;
@@ -0,0 +1,55 @@
+import React from 'react';
+import { formatCents } from '@/lib/money';
+
+interface PriceSummaryProps {
+  subtotal: number;
+  discounts?: { label: string; amount: number }[];
+  shipping: number;
+  tax: number;
+  total: number;
+  taxLabel?: string;
+  // Replaces the shipping amount, e.g. before a destination is known.
+  shippingLabel?: string;
+}
+
+const PriceSummary: React.FC<PriceSummaryProps> = ({
+  subtotal,
+  discounts = [],
+  shipping,
+  tax,
+  total,
+  taxLabel = 'Tax',
+  shippingLabel,
+}) => {
+  return (
+    <div className="space-y-3">
+      <div className="flex justify-between">
+        <span className="text-gray-600">Subtotal</span>
+        <span className="font-semibold">{formatCents(subtotal)}</span>
+      </div>
+      {discounts.map((discount) => (
+        <div key={discount.label} className="flex justify-between text-green-700">
+          <span>{discount.label}</span>
+          <span className="font-semibold">-{formatCents(discount.amount)}</span>
+        </div>
+      ))}
+      <div className="flex justify-between">
+        <span className="text-gray-600">Shipping</span>
+        <span className="font-semibold">
+          {shippingLabel ?? (shipping === 0 ? 'Free' : formatCents(shipping))}
+        </span>
+      </div>
+      <div className="flex justify-between">
+        <span className="text-gray-600">{taxLabel}</span>
+        <span className="font-semibold">{formatCents(tax)}</span>
+      </div>
+      <hr className="my-4" />
+      <div className="flex justify-between text-lg font-bold">
+        <span>Total</span>
+        <span>{formatCents(total)}</span>
+      </div>
+    </div>
+  );
+};
+
+export default PriceSummary;
@@ -1,65 +1,71 @@
 
 import React from 'react';
 import { Link } from 'react-router-dom';
-import { useCart } from '../context/CartContext';
-import { toast } from 'sonner';
-
-interface Product {
-  id: number;
-  name: string;
-  price: number;
-  image: string;
-  category: string;
-  sizes: string[];
-  colors: string[];
-}
+import WishlistButton from './WishlistButton';
+import StarRating from './StarRating';
+import QuickAddButton from './quick-add/QuickAddButton';
+import { useReviewSummaries } from '@/hooks/use-reviews';
+import { getPriceRange, getProductImages } from '@/lib/catalog';
+import type { Product } from '../utils/mockData';
 
 interface ProductCardProps {
   product: Product;
 }
 
 const ProductCard: React.FC<ProductCardProps> = ({ product }) => {
-  const { addToCart } = useCart();
-
-  const handleAddToCart = (e: React.MouseEvent) => {
-    e.preventDefault();
-    addToCart({
-      id: product.id,
-      name: product.name,
-      price: product.price,
-      image: product.image,
-      size: product.sizes[0],
-      color: product.colors[0],
-      quantity: 1,
-    });
-    toast.success(`${product.name} added to cart!`);
-  };
+  const { data: summaries } = useReviewSummaries();
+  const rating = summaries?.[product.id];
+  const [minPrice, maxPrice] = getPriceRange(product);
+  const hoverImage = getProductImages(product)[1];
 
   return (
-    <div className="group bg-white rounded-xl shadow-sm hover:shadow-lg transition-all duration-300 overflow-hidden border border-gray-100">
+    <div className="group relative bg-white rounded-xl shadow-sm hover:shadow-lg transition-all duration-300 overflow-hidden border border-gray-100">
+      <WishlistButton
+        item={{
+          productId: product.id,
+          name: product.name,
+          price: minPrice,
+          image: product.image,
+          size: '',
+          color: '',
+          sku: '',
+        }}
+        className="absolute top-4 right-4 z-10 w-10 h-10"
+      />
       <Link to={`/product/${product.id}`}>
-        <div className="aspect-square overflow-hidden bg-gray-50">
+        <div className="relative aspect-square overflow-hidden bg-gray-50">
           <img
             src={product.image}
             alt={product.name}
             className="w-full h-full object-cover group-hover:scale-105 transition-transform duration-300"
           />
+          {hoverImage && (
+            <img
+              src={hoverImage.url}
+              alt=""
+              loading="lazy"
+              className="absolute inset-0 w-full h-full object-cover opacity-0 group-hover:opacity-100 transition-opacity duration-300"
+            />
+          )}
         </div>
         <div className="p-6">
           <h3 className="font-semibold text-lg text-black mb-2 group-hover:text-blue-600 transition-colors">
             {product.name}
           </h3>
           <p className="text-gray-600 text-sm mb-3">{product.category}</p>
-          <p className="text-2xl font-bold text-black mb-4">${product.price}</p>
+          {rating && (
+            <div className="flex items-center text-sm text-gray-600 mb-3">
+              <StarRating rating={rating.average} size={14} className="mr-2" />
+              {rating.average.toFixed(1)} ({rating.count})
+            </div>
+          )}
+          <p className="text-2xl font-bold text-black mb-4">
+            {minPrice === maxPrice ? `$${minPrice}` : `From $${minPrice}`}
+          </p>
         </div>
       </Link>
       <div className="px-6 pb-6">
-        <button
-          onClick={handleAddToCart}
-          className="w-full bg-black text-white py-3 rounded-lg font-semibold hover:bg-gray-800 transition-colors"
-        >
-          Add to Cart
-        </button>
+        <QuickAddButton product={product} />
       </div>
     </div>
   );
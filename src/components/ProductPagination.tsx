@@ -0,0 +1,75 @@
+import React from 'react';
+import {
+  Pagination,
+  PaginationContent,
+  PaginationEllipsis,
+  PaginationItem,
+  PaginationLink,
+  PaginationNext,
+  PaginationPrevious,
+} from '@/components/ui/pagination';
+
+interface ProductPaginationProps {
+  page: number;
+  pageCount: number;
+  getHref: (page: number) => string;
+  onPageChange: (page: number) => void;
+}
+
+// The first, last and neighbouring pages, with gaps marked by null.
+const getVisiblePages = (page: number, pageCount: number): (number | null)[] => {
+  const pages: (number | null)[] = [];
+  for (let candidate = 1; candidate <= pageCount; candidate++) {
+    if (candidate === 1 || candidate === pageCount || Math.abs(candidate - page) <= 1) {
+      pages.push(candidate);
+    } else if (pages[pages.length - 1] !== null) {
+      pages.push(null);
+    }
+  }
+  return pages;
+};
+
+const ProductPagination: React.FC<ProductPaginationProps> = ({ page, pageCount, getHref, onPageChange }) => {
+  const handleClick = (target: number) => (e: React.MouseEvent) => {
+    e.preventDefault();
+    if (target >= 1 && target <= pageCount && target !== page) {
+      onPageChange(target);
+    }
+  };
+
+  return (
+    <Pagination className="mt-10">
+      <PaginationContent>
+        <PaginationItem>
+          <PaginationPrevious
+            href={getHref(Math.max(1, page - 1))}
+            onClick={handleClick(page - 1)}
+            aria-disabled={page === 1}
+            className={page === 1 ? 'pointer-events-none opacity-50' : ''}
+          />
+        </PaginationItem>
+        {getVisiblePages(page, pageCount).map((target, index) => (
+          <PaginationItem key={target ?? `gap-${index}`}>
+            {target === null ? (
+              <PaginationEllipsis />
+            ) : (
+              <PaginationLink href={getHref(target)} onClick={handleClick(target)} isActive={target === page}>
+                {target}
+              </PaginationLink>
+            )}
+          </PaginationItem>
+        ))}
+        <PaginationItem>
+          <PaginationNext
+            href={getHref(Math.min(pageCount, page + 1))}
+            onClick={handleClick(page + 1)}
+            aria-disabled={page === pageCount}
+            className={page === pageCount ? 'pointer-events-none opacity-50' : ''}
+          />
+        </PaginationItem>
+      </PaginationContent>
+    </Pagination>
+  );
+};
+
+export default ProductPagination;
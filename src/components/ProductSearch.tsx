@@ -0,0 +1,99 @@
+import React, { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Search } from 'lucide-react';
+import {
+  CommandDialog,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from '@/components/ui/command';
+import Highlight from './Highlight';
+import { useProductSearch } from '@/hooks/use-product-search';
+
+interface ProductSearchProps {
+  className?: string;
+  // Only one search box on the page should answer ⌘K.
+  shortcut?: boolean;
+}
+
+const ProductSearch: React.FC<ProductSearchProps> = ({ className = '', shortcut = true }) => {
+  const [open, setOpen] = useState(false);
+  const [query, setQuery] = useState('');
+  const navigate = useNavigate();
+  const { results } = useProductSearch(query);
+  const trimmed = query.trim();
+
+  useEffect(() => {
+    if (!shortcut) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'k' && (e.metaKey || e.ctrlKey)) {
+        e.preventDefault();
+        setOpen(current => !current);
+      }
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [shortcut]);
+
+  const go = (path: string) => {
+    setOpen(false);
+    setQuery('');
+    navigate(path);
+  };
+
+  return (
+    <>
+      <button
+        type="button"
+        onClick={() => setOpen(true)}
+        className={`flex items-center border border-gray-300 rounded-lg px-3 py-2 text-sm text-gray-500 hover:border-blue-600 transition-colors ${className}`}
+      >
+        <Search size={16} className="mr-2" />
+        <span className="flex-1 text-left">Search shirts...</span>
+        <kbd className="ml-4 hidden lg:inline text-xs text-gray-400">⌘K</kbd>
+      </button>
+
+      {/* Results are ranked by the search index, so cmdk's own filtering is turned off. */}
+      <CommandDialog open={open} onOpenChange={setOpen} shouldFilter={false}>
+        <CommandInput placeholder="Search by name, color or style..." value={query} onValueChange={setQuery} />
+        <CommandList>
+          {trimmed && (
+            <CommandGroup>
+              <CommandItem value={`search:${trimmed}`} onSelect={() => go(`/products?q=${encodeURIComponent(trimmed)}`)}>
+                <Search className="mr-2" />
+                Search for "{trimmed}"
+              </CommandItem>
+            </CommandGroup>
+          )}
+          {trimmed && results.length === 0 && (
+            <p className="py-4 text-center text-sm text-gray-500">No shirts match "{trimmed}".</p>
+          )}
+          {results.length > 0 && (
+            <CommandGroup heading="Products">
+              {results.map(({ product, matchedTerms }) => (
+                <CommandItem
+                  key={product.id}
+                  value={`product:${product.id}`}
+                  onSelect={() => go(`/product/${product.id}`)}
+                >
+                  <img src={product.image} alt="" className="w-10 h-10 rounded object-cover mr-3" />
+                  <div className="flex-1 min-w-0">
+                    <p className="font-medium truncate">
+                      <Highlight text={product.name} terms={matchedTerms} />
+                    </p>
+                    <p className="text-xs text-gray-500 truncate">
+                      <Highlight text={`${product.category} · ${product.colors.join(', ')}`} terms={matchedTerms} />
+                    </p>
+                  </div>
+                </CommandItem>
+              ))}
+            </CommandGroup>
+          )}
+        </CommandList>
+      </CommandDialog>
+    </>
+  );
+};
+
+export default ProductSearch;
@@ -0,0 +1,31 @@
+import React, { ReactNode } from 'react';
+import { Navigate, useLocation } from 'react-router-dom';
+import { useAuth } from '../context/AuthContext';
+import type { UserRole } from '@/lib/auth';
+
+interface RequireAuthProps {
+  // Signed-in users without this role are sent to the home page.
+  role?: UserRole;
+  children: ReactNode;
+}
+
+const RequireAuth: React.FC<RequireAuthProps> = ({ role, children }) => {
+  const { currentUser, isLoading } = useAuth();
+  const location = useLocation();
+
+  if (isLoading) {
+    return null;
+  }
+
+  if (!currentUser) {
+    return <Navigate to="/login" state={{ from: location }} replace />;
+  }
+
+  if (role && currentUser.role !== role) {
+    return <Navigate to="/" replace />;
+  }
+
+  return <>{children}</>;
+};
+
+export default RequireAuth;
@@ -0,0 +1,66 @@
+import React from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { useWishlist, type WishlistItem } from '../context/WishlistContext';
+import { toast } from 'sonner';
+
+interface SavedItemsListProps {
+  items: WishlistItem[];
+}
+
+const SavedItemsList: React.FC<SavedItemsListProps> = ({ items }) => {
+  const { moveToCart, removeFromWishlist } = useWishlist();
+  const navigate = useNavigate();
+
+  const handleMoveToCart = (item: WishlistItem) => {
+    if (moveToCart(item.id)) {
+      toast.success(`${item.name} moved to your cart`);
+    } else {
+      toast.info('Choose a size and color first');
+      navigate(`/product/${item.productId}`);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {items.map((item) => (
+        <div key={item.id} className="bg-white rounded-lg shadow-sm p-6 border border-gray-100">
+          <div className="flex items-center space-x-4">
+            <Link to={`/product/${item.productId}`}>
+              <img
+                src={item.image}
+                alt={item.name}
+                className="w-20 h-20 object-cover rounded-lg"
+              />
+            </Link>
+            <div className="flex-1">
+              <Link to={`/product/${item.productId}`} className="font-semibold text-lg text-black hover:text-blue-600">
+                {item.name}
+              </Link>
+              <p className="text-gray-600">
+                {item.sku ? `Size: ${item.size} | Color: ${item.color}` : 'Size and color not chosen'}
+                {item.quantity > 1 && ` | Qty: ${item.quantity}`}
+              </p>
+              <p className="text-xl font-bold text-black">${item.price.toFixed(2)}</p>
+            </div>
+            <div className="flex flex-col items-end space-y-2">
+              <button
+                onClick={() => handleMoveToCart(item)}
+                className="bg-black text-white px-4 py-2 rounded-lg font-semibold hover:bg-gray-800 transition-colors text-sm"
+              >
+                {item.sku ? 'Move to Cart' : 'Choose Options'}
+              </button>
+              <button
+                onClick={() => removeFromWishlist(item.id)}
+                className="text-red-600 hover:text-red-700 text-sm font-medium"
+              >
+                Remove
+              </button>
+            </div>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default SavedItemsList;
@@ -0,0 +1,27 @@
+import React from 'react';
+import { Star } from 'lucide-react';
+
+interface StarRatingProps {
+  rating: number;
+  size?: number;
+  className?: string;
+}
+
+// Read-only stars; the rating is rounded to the nearest whole star.
+const StarRating: React.FC<StarRatingProps> = ({ rating, size = 16, className = '' }) => {
+  const filled = Math.round(rating);
+
+  return (
+    <span className={`inline-flex items-center ${className}`} aria-label={`${rating} out of 5 stars`}>
+      {Array.from({ length: 5 }, (_, index) => (
+        <Star
+          key={index}
+          size={size}
+          className={index < filled ? 'fill-yellow-400 text-yellow-400' : 'text-gray-300'}
+        />
+      ))}
+    </span>
+  );
+};
+
+export default StarRating;
@@ -0,0 +1,35 @@
+import React from 'react';
+import { Heart } from 'lucide-react';
+import { useWishlist, type WishlistItemInput } from '../context/WishlistContext';
+import { getWishlistItemId } from '@/lib/wishlistStorage';
+import { toast } from 'sonner';
+
+interface WishlistButtonProps {
+  item: WishlistItemInput;
+  className?: string;
+}
+
+const WishlistButton: React.FC<WishlistButtonProps> = ({ item, className = '' }) => {
+  const { isInWishlist, toggleWishlist } = useWishlist();
+  const isSaved = isInWishlist(getWishlistItemId(item.productId, item.size, item.color));
+
+  const handleClick = (e: React.MouseEvent) => {
+    e.preventDefault();
+    const added = toggleWishlist(item);
+    toast.success(added ? `${item.name} saved to your wishlist` : `${item.name} removed from your wishlist`);
+  };
+
+  return (
+    <button
+      type="button"
+      onClick={handleClick}
+      aria-pressed={isSaved}
+      aria-label={isSaved ? 'Remove from wishlist' : 'Save to wishlist'}
+      className={`flex items-center justify-center rounded-full bg-white border border-gray-200 shadow-sm transition-colors hover:border-red-500 ${className}`}
+    >
+      <Heart size={20} className={isSaved ? 'fill-red-500 text-red-500' : 'text-gray-700'} />
+    </button>
+  );
+};
+
+export default WishlistButton;
@@ -0,0 +1,295 @@
+import React from 'react';
+import { useFieldArray, useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { Trash2 } from 'lucide-react';
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  productFormSchema,
+  toProductInput,
+  type ProductFormValues,
+  type ProductInput,
+} from '@/lib/catalog';
+import { SIZE_ORDER } from '@/lib/sizes';
+
+interface ProductFormProps {
+  defaultValues: ProductFormValues;
+  // Existing categories, offered as suggestions.
+  categories: string[];
+  submitLabel: string;
+  isSaving: boolean;
+  onSubmit: (input: ProductInput) => void;
+}
+
+const selectClass =
+  'h-10 w-full border border-input rounded-md px-3 bg-background text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+const sectionClass = 'bg-white rounded-lg shadow-sm p-6 border border-gray-100 space-y-4';
+
+const ProductForm: React.FC<ProductFormProps> = ({ defaultValues, categories, submitLabel, isSaving, onSubmit }) => {
+  const form = useForm<ProductFormValues>({
+    resolver: zodResolver(productFormSchema),
+    defaultValues,
+  });
+  const variants = useFieldArray({ control: form.control, name: 'variants' });
+  const images = useFieldArray({ control: form.control, name: 'images' });
+  const variantColors = Array.from(
+    new Set(form.watch('variants').map(variant => variant.color.trim()).filter(Boolean))
+  );
+  const { errors } = form.formState;
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(values => onSubmit(toProductInput(values)))} className="space-y-6" noValidate>
+        <section className={sectionClass}>
+          <h2 className="text-xl font-bold text-black">Details</h2>
+          <FormField
+            control={form.control}
+            name="name"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Name</FormLabel>
+                <FormControl>
+                  <Input {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="description"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Description</FormLabel>
+                <FormControl>
+                  <Textarea rows={4} {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+            <FormField
+              control={form.control}
+              name="category"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Category</FormLabel>
+                  <FormControl>
+                    <Input list="product-categories" {...field} />
+                  </FormControl>
+                  <datalist id="product-categories">
+                    {categories.map((category) => (
+                      <option key={category} value={category} />
+                    ))}
+                  </datalist>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="price"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Price ($)</FormLabel>
+                  <FormControl>
+                    <Input inputMode="decimal" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="weight"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Shipping weight (g)</FormLabel>
+                  <FormControl>
+                    <Input inputMode="numeric" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          </div>
+        </section>
+
+        <section className={sectionClass}>
+          <div className="flex justify-between items-center">
+            <h2 className="text-xl font-bold text-black">Variants & Stock</h2>
+            <button
+              type="button"
+              onClick={() => variants.append({ size: 'M', color: '', stock: '0', price: '' })}
+              className="text-blue-600 hover:text-blue-700 font-medium"
+            >
+              Add variant
+            </button>
+          </div>
+          <p className="text-sm text-gray-500">Leave the price blank to use the product price.</p>
+          {variants.fields.map((variant, index) => (
+            <div key={variant.id} className="grid grid-cols-2 sm:grid-cols-[6rem_1fr_6rem_7rem_auto] gap-3 items-start">
+              <FormField
+                control={form.control}
+                name={`variants.${index}.size`}
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel className={index > 0 ? 'sm:sr-only' : undefined}>Size</FormLabel>
+                    <FormControl>
+                      <select className={selectClass} {...field}>
+                        {SIZE_ORDER.map((size) => (
+                          <option key={size} value={size}>{size}</option>
+                        ))}
+                      </select>
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name={`variants.${index}.color`}
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel className={index > 0 ? 'sm:sr-only' : undefined}>Color</FormLabel>
+                    <FormControl>
+                      <Input {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name={`variants.${index}.stock`}
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel className={index > 0 ? 'sm:sr-only' : undefined}>Stock</FormLabel>
+                    <FormControl>
+                      <Input inputMode="numeric" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name={`variants.${index}.price`}
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel className={index > 0 ? 'sm:sr-only' : undefined}>Price ($)</FormLabel>
+                    <FormControl>
+                      <Input inputMode="decimal" placeholder="Default" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <button
+                type="button"
+                onClick={() => variants.remove(index)}
+                aria-label="Remove variant"
+                className={`h-10 px-2 text-red-600 hover:text-red-700 ${index === 0 ? 'sm:mt-8' : ''}`}
+              >
+                <Trash2 size={18} />
+              </button>
+            </div>
+          ))}
+          {errors.variants?.message && <p className="text-sm font-medium text-destructive">{errors.variants.message}</p>}
+        </section>
+
+        <section className={sectionClass}>
+          <div className="flex justify-between items-center">
+            <h2 className="text-xl font-bold text-black">Images</h2>
+            <button
+              type="button"
+              onClick={() => images.append({ url: '', alt: '', color: '' })}
+              className="text-blue-600 hover:text-blue-700 font-medium"
+            >
+              Add image
+            </button>
+          </div>
+          <p className="text-sm text-gray-500">The first image is the product thumbnail.</p>
+          {images.fields.map((image, index) => {
+            const url = form.watch(`images.${index}.url`);
+            return (
+              <div key={image.id} className="flex gap-4 items-start">
+                <div className="w-16 h-16 shrink-0 rounded-lg bg-gray-100 overflow-hidden">
+                  {url && <img src={url} alt="" className="w-full h-full object-cover" />}
+                </div>
+                <div className="flex-1 grid grid-cols-1 sm:grid-cols-[2fr_1fr_9rem] gap-3">
+                  <FormField
+                    control={form.control}
+                    name={`images.${index}.url`}
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Image URL</FormLabel>
+                        <FormControl>
+                          <Input type="url" placeholder="https://" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name={`images.${index}.alt`}
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Alt text</FormLabel>
+                        <FormControl>
+                          <Input {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name={`images.${index}.color`}
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Color</FormLabel>
+                        <FormControl>
+                          <select className={selectClass} {...field}>
+                            <option value="">All colors</option>
+                            {Array.from(new Set([...variantColors, field.value].filter(Boolean))).map((color) => (
+                              <option key={color} value={color}>{color}</option>
+                            ))}
+                          </select>
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+                <button
+                  type="button"
+                  onClick={() => images.remove(index)}
+                  aria-label="Remove image"
+                  className="h-10 px-2 mt-8 text-red-600 hover:text-red-700"
+                >
+                  <Trash2 size={18} />
+                </button>
+              </div>
+            );
+          })}
+          {errors.images?.message && <p className="text-sm font-medium text-destructive">{errors.images.message}</p>}
+        </section>
+
+        <button
+          type="submit"
+          disabled={isSaving}
+          className="bg-black text-white px-8 py-4 rounded-lg font-semibold hover:bg-gray-800 transition-colors disabled:opacity-60"
+        >
+          {isSaving ? 'Saving...' : submitLabel}
+        </button>
+      </form>
+    </Form>
+  );
+};
+
+export default ProductForm;
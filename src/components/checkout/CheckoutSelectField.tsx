@@ -0,0 +1,52 @@
+import React from 'react';
+import { useFormContext, type FieldPath } from 'react-hook-form';
+import { FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import type { CheckoutFormValues } from '@/lib/checkout';
+
+interface CheckoutSelectFieldProps {
+  name: FieldPath<CheckoutFormValues>;
+  label: string;
+  options: { value: string; label: string }[];
+  autoComplete?: string;
+  required?: boolean;
+}
+
+const CheckoutSelectField: React.FC<CheckoutSelectFieldProps> = ({
+  name,
+  label,
+  options,
+  autoComplete,
+  required,
+}) => {
+  const { control } = useFormContext<CheckoutFormValues>();
+
+  return (
+    <FormField
+      control={control}
+      name={name}
+      render={({ field }) => (
+        <FormItem className="space-y-0">
+          <FormLabel className="block text-sm font-medium text-gray-700 mb-2">
+            {label}{required && ' *'}
+          </FormLabel>
+          <FormControl>
+            <select
+              {...field}
+              autoComplete={autoComplete}
+              className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            >
+              {options.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </FormControl>
+          <FormMessage className="mt-1" />
+        </FormItem>
+      )}
+    />
+  );
+};
+
+export default CheckoutSelectField;
@@ -0,0 +1,54 @@
+import React from 'react';
+import { Check } from 'lucide-react';
+import { CHECKOUT_STEPS } from '@/lib/checkout';
+
+interface CheckoutStepperProps {
+  currentIndex: number;
+  onSelect: (index: number) => void;
+}
+
+const CheckoutStepper: React.FC<CheckoutStepperProps> = ({ currentIndex, onSelect }) => {
+  return (
+    <ol className="flex items-center mb-8">
+      {CHECKOUT_STEPS.map((step, index) => {
+        const isComplete = index < currentIndex;
+        const isCurrent = index === currentIndex;
+        return (
+          <li key={step.id} className="flex items-center flex-1 last:flex-none">
+            <button
+              type="button"
+              onClick={() => onSelect(index)}
+              disabled={!isComplete}
+              aria-current={isCurrent ? 'step' : undefined}
+              className="flex items-center disabled:cursor-default"
+            >
+              <span
+                className={`w-8 h-8 rounded-full flex items-center justify-center text-sm font-semibold ${
+                  isComplete
+                    ? 'bg-blue-600 text-white'
+                    : isCurrent
+                      ? 'border-2 border-blue-600 text-blue-600'
+                      : 'border-2 border-gray-300 text-gray-400'
+                }`}
+              >
+                {isComplete ? <Check size={16} /> : index + 1}
+              </span>
+              <span
+                className={`ml-2 text-sm font-medium hidden sm:inline ${
+                  isCurrent || isComplete ? 'text-black' : 'text-gray-400'
+                }`}
+              >
+                {step.title}
+              </span>
+            </button>
+            {index < CHECKOUT_STEPS.length - 1 && (
+              <div className={`flex-1 h-px mx-3 ${isComplete ? 'bg-blue-600' : 'bg-gray-300'}`} />
+            )}
+          </li>
+        );
+      })}
+    </ol>
+  );
+};
+
+export default CheckoutStepper;
@@ -0,0 +1,50 @@
+import React from 'react';
+import { useFormContext, type FieldPath } from 'react-hook-form';
+import { FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import type { CheckoutFormValues } from '@/lib/checkout';
+
+interface CheckoutTextFieldProps {
+  name: FieldPath<CheckoutFormValues>;
+  label: string;
+  type?: string;
+  placeholder?: string;
+  autoComplete?: string;
+  required?: boolean;
+}
+
+const CheckoutTextField: React.FC<CheckoutTextFieldProps> = ({
+  name,
+  label,
+  type = 'text',
+  placeholder,
+  autoComplete,
+  required,
+}) => {
+  const { control } = useFormContext<CheckoutFormValues>();
+
+  return (
+    <FormField
+      control={control}
+      name={name}
+      render={({ field }) => (
+        <FormItem className="space-y-0">
+          <FormLabel className="block text-sm font-medium text-gray-700 mb-2">
+            {label}{required && ' *'}
+          </FormLabel>
+          <FormControl>
+            <input
+              type={type}
+              placeholder={placeholder}
+              autoComplete={autoComplete}
+              {...field}
+              className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-transparent aria-[invalid=true]:border-red-500"
+            />
+          </FormControl>
+          <FormMessage className="mt-1" />
+        </FormItem>
+      )}
+    />
+  );
+};
+
+export default CheckoutTextField;
@@ -0,0 +1,16 @@
+import React from 'react';
+import CheckoutTextField from './CheckoutTextField';
+
+const ContactStep = () => {
+  return (
+    <div>
+      <h2 className="text-xl font-semibold text-black mb-4">Contact Information</h2>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <CheckoutTextField name="email" label="Email" type="email" autoComplete="email" required />
+        <CheckoutTextField name="phone" label="Phone" type="tel" autoComplete="tel" />
+      </div>
+    </div>
+  );
+};
+
+export default ContactStep;
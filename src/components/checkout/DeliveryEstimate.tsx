@@ -0,0 +1,24 @@
+import React from 'react';
+import { format, isSameDay } from 'date-fns';
+
+interface DeliveryEstimateProps {
+  from: string;
+  to: string;
+  prefix?: string;
+}
+
+const DeliveryEstimate: React.FC<DeliveryEstimateProps> = ({ from, to, prefix = 'Arrives' }) => {
+  const fromDate = new Date(from);
+  const toDate = new Date(to);
+
+  return (
+    <>
+      {prefix}{' '}
+      {isSameDay(fromDate, toDate)
+        ? format(fromDate, 'EEE, MMM d')
+        : `${format(fromDate, 'EEE, MMM d')} – ${format(toDate, 'EEE, MMM d')}`}
+    </>
+  );
+};
+
+export default DeliveryEstimate;
@@ -0,0 +1,65 @@
+import React from 'react';
+import { useFormContext } from 'react-hook-form';
+import { FormField, FormItem, FormMessage } from '@/components/ui/form';
+import DeliveryEstimate from './DeliveryEstimate';
+import type { CheckoutFormValues } from '@/lib/checkout';
+import { formatCents } from '@/lib/money';
+import type { ShippingQuote } from '@/lib/shipping';
+
+interface DeliveryStepProps {
+  quotes: ShippingQuote[];
+}
+
+const DeliveryStep: React.FC<DeliveryStepProps> = ({ quotes }) => {
+  const { control } = useFormContext<CheckoutFormValues>();
+
+  return (
+    <div>
+      <h2 className="text-xl font-semibold text-black mb-4">Delivery Method</h2>
+      {quotes.length === 0 && (
+        <p className="text-gray-600">We don't deliver to this address yet.</p>
+      )}
+      <FormField
+        control={control}
+        name="deliveryMethod"
+        render={({ field }) => (
+          <FormItem className="space-y-3">
+            {quotes.map((quote) => (
+              <label
+                key={quote.methodId}
+                className={`flex items-center justify-between border rounded-lg p-4 cursor-pointer transition-colors ${
+                  field.value === quote.methodId ? 'border-blue-600 bg-blue-50' : 'border-gray-300 hover:border-blue-600'
+                }`}
+              >
+                <span className="flex items-center">
+                  <input
+                    type="radio"
+                    name={field.name}
+                    value={quote.methodId}
+                    checked={field.value === quote.methodId}
+                    onChange={() => field.onChange(quote.methodId)}
+                    className="mr-3"
+                  />
+                  <span>
+                    <span className="block font-medium text-black">{quote.label}</span>
+                    <span className="block text-sm text-gray-600">{quote.description}</span>
+                    <span className="block text-sm text-gray-600">
+                      <DeliveryEstimate
+                        {...quote.estimatedDelivery}
+                        prefix={quote.methodId === 'pickup' ? 'Ready' : 'Arrives'}
+                      />
+                    </span>
+                  </span>
+                </span>
+                <span className="font-semibold">{quote.isFree ? 'Free' : formatCents(quote.cost)}</span>
+              </label>
+            ))}
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+    </div>
+  );
+};
+
+export default DeliveryStep;
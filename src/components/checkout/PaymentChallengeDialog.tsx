@@ -0,0 +1,76 @@
+import React, { useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { InputOTP, InputOTPGroup, InputOTPSlot } from '@/components/ui/input-otp';
+import type { PaymentChallenge } from '@/lib/payments';
+
+interface PaymentChallengeDialogProps {
+  challenge: PaymentChallenge | null;
+  onSubmit: (code: string) => void;
+  onCancel: () => void;
+}
+
+const CODE_LENGTH = 6;
+
+const PaymentChallengeDialog: React.FC<PaymentChallengeDialogProps> = ({ challenge, onSubmit, onCancel }) => {
+  const [code, setCode] = useState('');
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onSubmit(code);
+    setCode('');
+  };
+
+  const handleOpenChange = (open: boolean) => {
+    if (!open) {
+      setCode('');
+      onCancel();
+    }
+  };
+
+  return (
+    <Dialog open={!!challenge} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <form onSubmit={handleSubmit}>
+          <DialogHeader>
+            <DialogTitle>Verify your payment</DialogTitle>
+            <DialogDescription>{challenge?.message}</DialogDescription>
+          </DialogHeader>
+          <div className="flex justify-center py-6">
+            <InputOTP maxLength={CODE_LENGTH} value={code} onChange={setCode} autoFocus>
+              <InputOTPGroup>
+                {Array.from({ length: CODE_LENGTH }, (_, index) => (
+                  <InputOTPSlot key={index} index={index} />
+                ))}
+              </InputOTPGroup>
+            </InputOTP>
+          </div>
+          <DialogFooter className="gap-2">
+            <button
+              type="button"
+              onClick={() => handleOpenChange(false)}
+              className="border-2 border-gray-300 text-gray-700 px-6 py-3 rounded-lg font-semibold hover:bg-gray-50 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={code.length < CODE_LENGTH}
+              className="bg-black text-white px-6 py-3 rounded-lg font-semibold hover:bg-gray-800 transition-colors disabled:opacity-60"
+            >
+              Verify
+            </button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default PaymentChallengeDialog;
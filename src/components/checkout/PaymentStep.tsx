@@ -0,0 +1,52 @@
+import React from 'react';
+import { useFormContext } from 'react-hook-form';
+import CheckoutTextField from './CheckoutTextField';
+import CheckoutSelectField from './CheckoutSelectField';
+import { usePaymentProvider } from '@/context/PaymentContext';
+import type { CheckoutFormValues } from '@/lib/checkout';
+import { SANDBOX_CHALLENGE_CODE } from '@/lib/payments';
+
+const paymentOptions = [
+  { value: 'card', label: 'Credit/Debit Card' },
+  { value: 'paypal', label: 'PayPal' },
+];
+
+const PaymentStep = () => {
+  const { watch } = useFormContext<CheckoutFormValues>();
+  const paymentMethod = watch('paymentMethod');
+  const paymentProvider = usePaymentProvider();
+
+  return (
+    <div>
+      <h2 className="text-xl font-semibold text-black mb-4">Payment Information</h2>
+      <div className="space-y-4">
+        <CheckoutSelectField name="paymentMethod" label="Payment Method" options={paymentOptions} />
+
+        {paymentMethod === 'card' && (
+          <>
+            <CheckoutTextField
+              name="cardNumber"
+              label="Card Number"
+              placeholder="1234 5678 9012 3456"
+              autoComplete="cc-number"
+            />
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <CheckoutTextField name="expiryDate" label="Expiry Date" placeholder="MM/YY" autoComplete="cc-exp" />
+              <CheckoutTextField name="cvv" label="CVV" placeholder="123" autoComplete="cc-csc" />
+              <CheckoutTextField name="nameOnCard" label="Name on Card" autoComplete="cc-name" />
+            </div>
+            {paymentProvider.id === 'sandbox' && (
+              <p className="text-sm text-gray-600 bg-gray-50 border border-gray-200 rounded-lg p-3">
+                Sandbox mode: no real charges are made. Use 4242 4242 4242 4242 to approve, 4000 0000 0000 0002
+                to decline, 4000 0000 0000 9995 for insufficient funds, or 4000 0000 0000 3220 for a verification
+                step (code {SANDBOX_CHALLENGE_CODE}).
+              </p>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PaymentStep;
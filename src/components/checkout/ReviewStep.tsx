@@ -0,0 +1,79 @@
+import React, { ReactNode } from 'react';
+import { useFormContext } from 'react-hook-form';
+import DeliveryEstimate from './DeliveryEstimate';
+import { getCountryRule, normalizeCardNumber, type CheckoutFormValues, type CheckoutStepId } from '@/lib/checkout';
+import { formatCents } from '@/lib/money';
+import type { ShippingQuote } from '@/lib/shipping';
+
+interface ReviewStepProps {
+  shippingQuote: ShippingQuote | null;
+  onEdit: (step: CheckoutStepId) => void;
+}
+
+const ReviewSection: React.FC<{ title: string; onEdit: () => void; children: ReactNode }> = ({
+  title,
+  onEdit,
+  children,
+}) => (
+  <div className="border border-gray-200 rounded-lg p-4">
+    <div className="flex justify-between items-center mb-2">
+      <h3 className="font-semibold text-black">{title}</h3>
+      <button type="button" onClick={onEdit} className="text-blue-600 hover:text-blue-700 text-sm font-medium">
+        Edit
+      </button>
+    </div>
+    <div className="text-gray-700 text-sm">{children}</div>
+  </div>
+);
+
+const ReviewStep: React.FC<ReviewStepProps> = ({ shippingQuote, onEdit }) => {
+  const { getValues } = useFormContext<CheckoutFormValues>();
+  const values = getValues();
+
+  return (
+    <div>
+      <h2 className="text-xl font-semibold text-black mb-4">Review Your Order</h2>
+      <div className="space-y-4">
+        <ReviewSection title="Contact" onEdit={() => onEdit('contact')}>
+          <p>{values.email}</p>
+          {values.phone && <p>{values.phone}</p>}
+        </ReviewSection>
+
+        <ReviewSection title="Shipping Address" onEdit={() => onEdit('shipping')}>
+          <p>{values.firstName} {values.lastName}</p>
+          <p>{values.address}</p>
+          <p>{[values.city, values.state].filter(Boolean).join(', ')} {values.zipCode}</p>
+          <p>{getCountryRule(values.country)?.name ?? values.country}</p>
+        </ReviewSection>
+
+        <ReviewSection title="Delivery" onEdit={() => onEdit('delivery')}>
+          {shippingQuote ? (
+            <>
+              <p>
+                {shippingQuote.label} · {shippingQuote.isFree ? 'Free' : formatCents(shippingQuote.cost)}
+              </p>
+              <p>
+                <DeliveryEstimate
+                  {...shippingQuote.estimatedDelivery}
+                  prefix={shippingQuote.methodId === 'pickup' ? 'Ready' : 'Arrives'}
+                />
+              </p>
+            </>
+          ) : (
+            <p>Choose a delivery method</p>
+          )}
+        </ReviewSection>
+
+        <ReviewSection title="Payment" onEdit={() => onEdit('payment')}>
+          {values.paymentMethod === 'card' ? (
+            <p>Card ending in {normalizeCardNumber(values.cardNumber).slice(-4)}</p>
+          ) : (
+            <p>PayPal</p>
+          )}
+        </ReviewSection>
+      </div>
+    </div>
+  );
+};
+
+export default ReviewStep;
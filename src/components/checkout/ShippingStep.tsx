@@ -0,0 +1,39 @@
+import React from 'react';
+import { useFormContext } from 'react-hook-form';
+import CheckoutTextField from './CheckoutTextField';
+import CheckoutSelectField from './CheckoutSelectField';
+import { COUNTRIES, getCountryRule, type CheckoutFormValues } from '@/lib/checkout';
+
+const countryOptions = COUNTRIES.map(country => ({ value: country.code, label: country.name }));
+
+const ShippingStep = () => {
+  const { watch } = useFormContext<CheckoutFormValues>();
+  const country = getCountryRule(watch('country'));
+  const postalCodeLabel = country?.postalCodeLabel ?? 'Postal Code';
+
+  return (
+    <div>
+      <h2 className="text-xl font-semibold text-black mb-4">Shipping Address</h2>
+      <div className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <CheckoutTextField name="firstName" label="First Name" autoComplete="given-name" required />
+          <CheckoutTextField name="lastName" label="Last Name" autoComplete="family-name" required />
+        </div>
+        <CheckoutSelectField name="country" label="Country" options={countryOptions} autoComplete="country" required />
+        <CheckoutTextField name="address" label="Address" autoComplete="street-address" required />
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <CheckoutTextField name="city" label="City" autoComplete="address-level2" required />
+          <CheckoutTextField
+            name="state"
+            label={country?.stateLabel ?? 'State / Region'}
+            autoComplete="address-level1"
+            required={!!country?.stateLabel}
+          />
+          <CheckoutTextField name="zipCode" label={postalCodeLabel} autoComplete="postal-code" required />
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ShippingStep;
@@ -0,0 +1,44 @@
+import React from 'react';
+import { Dialog, DialogContent, DialogTitle } from '@/components/ui/dialog';
+import {
+  Carousel,
+  CarouselContent,
+  CarouselItem,
+  CarouselNext,
+  CarouselPrevious,
+} from '@/components/ui/carousel';
+import ZoomableImage from './ZoomableImage';
+import type { ProductImage } from '@/utils/mockData';
+
+interface ImageLightboxProps {
+  images: ProductImage[];
+  open: boolean;
+  startIndex: number;
+  title: string;
+  onOpenChange: (open: boolean) => void;
+}
+
+const ImageLightbox: React.FC<ImageLightboxProps> = ({ images, open, startIndex, title, onOpenChange }) => (
+  <Dialog open={open} onOpenChange={onOpenChange}>
+    <DialogContent className="max-w-5xl w-[95vw] p-0 bg-white overflow-hidden">
+      <DialogTitle className="sr-only">{title}</DialogTitle>
+      <Carousel opts={{ startIndex, loop: images.length > 1 }}>
+        <CarouselContent>
+          {images.map((image) => (
+            <CarouselItem key={image.url}>
+              <ZoomableImage image={image} className="aspect-square max-h-[85vh] mx-auto" />
+            </CarouselItem>
+          ))}
+        </CarouselContent>
+        {images.length > 1 && (
+          <>
+            <CarouselPrevious className="left-4" />
+            <CarouselNext className="right-4" />
+          </>
+        )}
+      </Carousel>
+    </DialogContent>
+  </Dialog>
+);
+
+export default ImageLightbox;
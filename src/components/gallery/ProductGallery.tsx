@@ -0,0 +1,91 @@
+import React, { useEffect, useState } from 'react';
+import { Expand } from 'lucide-react';
+import {
+  Carousel,
+  CarouselContent,
+  CarouselItem,
+  CarouselNext,
+  CarouselPrevious,
+  type CarouselApi,
+} from '@/components/ui/carousel';
+import ZoomableImage from './ZoomableImage';
+import ImageLightbox from './ImageLightbox';
+import type { ProductImage } from '@/utils/mockData';
+
+interface ProductGalleryProps {
+  images: ProductImage[];
+  title: string;
+}
+
+const ProductGallery: React.FC<ProductGalleryProps> = ({ images, title }) => {
+  const [api, setApi] = useState<CarouselApi>();
+  const [selectedIndex, setSelectedIndex] = useState(0);
+  const [isLightboxOpen, setIsLightboxOpen] = useState(false);
+
+  useEffect(() => {
+    if (!api) return;
+    const onSelect = () => setSelectedIndex(api.selectedScrollSnap());
+    onSelect();
+    api.on('select', onSelect);
+    return () => {
+      api.off('select', onSelect);
+    };
+  }, [api]);
+
+  return (
+    <div>
+      <Carousel setApi={setApi} className="rounded-2xl overflow-hidden shadow-lg">
+        <CarouselContent>
+          {images.map((image) => (
+            <CarouselItem key={image.url}>
+              <ZoomableImage image={image} onOpen={() => setIsLightboxOpen(true)} className="aspect-square" />
+            </CarouselItem>
+          ))}
+        </CarouselContent>
+        {images.length > 1 && (
+          <>
+            <CarouselPrevious className="left-4" />
+            <CarouselNext className="right-4" />
+          </>
+        )}
+        <button
+          type="button"
+          onClick={() => setIsLightboxOpen(true)}
+          aria-label="View full screen"
+          className="absolute bottom-4 right-4 w-10 h-10 rounded-full bg-white/90 shadow flex items-center justify-center text-gray-700 hover:text-blue-600"
+        >
+          <Expand size={18} />
+        </button>
+      </Carousel>
+
+      {images.length > 1 && (
+        <div className="flex gap-3 mt-4 overflow-x-auto">
+          {images.map((image, index) => (
+            <button
+              key={image.url}
+              type="button"
+              onClick={() => api?.scrollTo(index)}
+              aria-label={`Show image ${index + 1}`}
+              aria-current={index === selectedIndex}
+              className={`w-20 h-20 shrink-0 rounded-lg overflow-hidden border-2 transition-colors ${
+                index === selectedIndex ? 'border-blue-600' : 'border-transparent hover:border-gray-300'
+              }`}
+            >
+              <img src={image.url} alt="" className="w-full h-full object-cover" loading="lazy" />
+            </button>
+          ))}
+        </div>
+      )}
+
+      <ImageLightbox
+        images={images}
+        open={isLightboxOpen}
+        startIndex={selectedIndex}
+        title={title}
+        onOpenChange={setIsLightboxOpen}
+      />
+    </div>
+  );
+};
+
+export default ProductGallery;
@@ -0,0 +1,80 @@
+import React, { useRef, useState } from 'react';
+import type { ProductImage } from '@/utils/mockData';
+
+interface ZoomableImageProps {
+  image: ProductImage;
+  onOpen?: () => void;
+  className?: string;
+}
+
+const HOVER_SCALE = 2;
+const MAX_PINCH_SCALE = 3;
+
+const distanceBetween = (touches: React.TouchList) =>
+  Math.hypot(touches[0].clientX - touches[1].clientX, touches[0].clientY - touches[1].clientY);
+
+// Zooms towards the cursor on hover and follows a two-finger pinch on touch screens.
+const ZoomableImage: React.FC<ZoomableImageProps> = ({ image, onOpen, className = '' }) => {
+  const [scale, setScale] = useState(1);
+  const [origin, setOrigin] = useState({ x: 50, y: 50 });
+  const pinchStart = useRef<number | null>(null);
+
+  const originFrom = (element: HTMLElement, clientX: number, clientY: number) => {
+    const rect = element.getBoundingClientRect();
+    return {
+      x: ((clientX - rect.left) / rect.width) * 100,
+      y: ((clientY - rect.top) / rect.height) * 100,
+    };
+  };
+
+  const handleMouseMove = (e: React.MouseEvent<HTMLDivElement>) => {
+    setOrigin(originFrom(e.currentTarget, e.clientX, e.clientY));
+  };
+
+  const handleTouchStart = (e: React.TouchEvent<HTMLDivElement>) => {
+    if (e.touches.length === 2) {
+      pinchStart.current = distanceBetween(e.touches);
+    }
+  };
+
+  const handleTouchMove = (e: React.TouchEvent<HTMLDivElement>) => {
+    if (e.touches.length !== 2 || pinchStart.current === null) return;
+    // Keep the carousel from treating the pinch as a swipe.
+    e.stopPropagation();
+    const midX = (e.touches[0].clientX + e.touches[1].clientX) / 2;
+    const midY = (e.touches[0].clientY + e.touches[1].clientY) / 2;
+    setOrigin(originFrom(e.currentTarget, midX, midY));
+    setScale(Math.min(MAX_PINCH_SCALE, Math.max(1, distanceBetween(e.touches) / pinchStart.current)));
+  };
+
+  const handleTouchEnd = (e: React.TouchEvent<HTMLDivElement>) => {
+    if (e.touches.length < 2) {
+      pinchStart.current = null;
+      setScale(1);
+    }
+  };
+
+  return (
+    <div
+      className={`relative overflow-hidden bg-gray-50 ${onOpen ? 'cursor-zoom-in' : ''} ${className}`}
+      style={{ touchAction: 'pan-y' }}
+      onMouseEnter={() => setScale(HOVER_SCALE)}
+      onMouseLeave={() => setScale(1)}
+      onMouseMove={handleMouseMove}
+      onTouchStart={handleTouchStart}
+      onTouchMove={handleTouchMove}
+      onTouchEnd={handleTouchEnd}
+      onClick={onOpen}
+    >
+      <img
+        src={image.url}
+        alt={image.alt}
+        draggable={false}
+        className="w-full h-full object-cover transition-transform duration-150 ease-out"
+        style={{ transform: `scale(${scale})`, transformOrigin: `${origin.x}% ${origin.y}%` }}
+      />
+    </div>
+  );
+};
+
+export default ZoomableImage;
@@ -0,0 +1,56 @@
+import React, { useState } from 'react';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Drawer, DrawerContent, DrawerDescription, DrawerHeader, DrawerTitle, DrawerTrigger } from '@/components/ui/drawer';
+import { useIsMobile } from '@/hooks/use-mobile';
+import { isProductInStock } from '@/lib/catalog';
+import QuickAddPicker from './QuickAddPicker';
+import type { Product } from '@/utils/mockData';
+
+interface QuickAddButtonProps {
+  product: Product;
+}
+
+// Opens a popover on desktop and a bottom drawer on phones, where a popover would be cramped.
+const QuickAddButton: React.FC<QuickAddButtonProps> = ({ product }) => {
+  const isMobile = useIsMobile();
+  const [open, setOpen] = useState(false);
+  const inStock = isProductInStock(product);
+
+  const trigger = (
+    <button
+      type="button"
+      disabled={!inStock}
+      className="w-full bg-black text-white py-3 rounded-lg font-semibold hover:bg-gray-800 transition-colors disabled:bg-gray-300 disabled:cursor-not-allowed"
+    >
+      {inStock ? 'Add to Cart' : 'Sold Out'}
+    </button>
+  );
+  const picker = <QuickAddPicker product={product} onAdded={() => setOpen(false)} />;
+
+  if (isMobile) {
+    return (
+      <Drawer open={open} onOpenChange={setOpen}>
+        <DrawerTrigger asChild>{trigger}</DrawerTrigger>
+        <DrawerContent>
+          <DrawerHeader className="text-left">
+            <DrawerTitle>{product.name}</DrawerTitle>
+            <DrawerDescription>Choose your size and color</DrawerDescription>
+          </DrawerHeader>
+          <div className="px-4 pb-6">{picker}</div>
+        </DrawerContent>
+      </Drawer>
+    );
+  }
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>{trigger}</PopoverTrigger>
+      <PopoverContent className="w-80" align="center" side="top">
+        <p className="font-semibold text-black mb-4">{product.name}</p>
+        {picker}
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default QuickAddButton;
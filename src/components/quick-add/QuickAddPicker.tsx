@@ -0,0 +1,149 @@
+import React, { useState } from 'react';
+import { useCart } from '@/context/CartContext';
+import { getCartLineId } from '@/lib/cartLine';
+import {
+  findVariant,
+  getColorImage,
+  getStockLabel,
+  getVariantPrice,
+  isColorAvailable,
+  isSizeAvailable,
+} from '@/lib/catalog';
+import type { Product } from '@/utils/mockData';
+import { toast } from 'sonner';
+
+interface QuickAddPickerProps {
+  product: Product;
+  onAdded: () => void;
+}
+
+const optionClass = (selected: boolean) =>
+  `px-3 py-1.5 border rounded-md text-sm font-medium transition-colors disabled:border-gray-200 disabled:text-gray-300 disabled:line-through disabled:cursor-not-allowed ${
+    selected ? 'border-blue-600 bg-blue-600 text-white' : 'border-gray-300 text-gray-700 hover:border-blue-600'
+  }`;
+
+// A compact version of the product page selectors. Single-option products start preselected.
+const QuickAddPicker: React.FC<QuickAddPickerProps> = ({ product, onAdded }) => {
+  const { cartItems, addToCart } = useCart();
+  const [selectedSize, setSelectedSize] = useState(product.sizes.length === 1 ? product.sizes[0] : '');
+  const [selectedColor, setSelectedColor] = useState(product.colors.length === 1 ? product.colors[0] : '');
+  const [quantity, setQuantity] = useState(1);
+
+  const selectedVariant = selectedSize && selectedColor
+    ? findVariant(product, selectedSize, selectedColor)
+    : undefined;
+  const unitPrice = getVariantPrice(product, selectedVariant);
+  const quantityInCart = selectedVariant
+    ? cartItems.find(item => item.lineId === getCartLineId(product.id, selectedSize, selectedColor))?.quantity ?? 0
+    : 0;
+  const available = selectedVariant ? Math.max(0, selectedVariant.stock - quantityInCart) : undefined;
+  const canAdd = available !== undefined && available >= quantity && quantity > 0;
+
+  const selectSize = (size: string) => {
+    setSelectedSize(selectedSize === size ? '' : size);
+    setQuantity(1);
+  };
+
+  const selectColor = (color: string) => {
+    setSelectedColor(selectedColor === color ? '' : color);
+    setQuantity(1);
+  };
+
+  const handleAdd = () => {
+    if (!selectedVariant || !canAdd) return;
+    addToCart({
+      id: product.id,
+      sku: selectedVariant.sku,
+      name: product.name,
+      price: unitPrice,
+      image: getColorImage(product, selectedColor),
+      size: selectedSize,
+      color: selectedColor,
+      quantity,
+      maxQuantity: selectedVariant.stock,
+    });
+    toast.success(`${product.name} added to cart!`);
+    onAdded();
+  };
+
+  const buttonLabel = !selectedSize
+    ? 'Select a size'
+    : !selectedColor
+      ? 'Select a color'
+      : available === 0
+        ? selectedVariant?.stock === 0 ? 'Sold Out' : 'All stock in cart'
+        : `Add to Cart - $${(unitPrice * quantity).toFixed(2)}`;
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <p className="text-sm font-medium text-gray-700 mb-2">Size</p>
+        <div className="flex flex-wrap gap-2">
+          {product.sizes.map((size) => (
+            <button
+              key={size}
+              type="button"
+              onClick={() => selectSize(size)}
+              disabled={!isSizeAvailable(product, size, selectedColor)}
+              className={optionClass(selectedSize === size)}
+            >
+              {size}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div>
+        <p className="text-sm font-medium text-gray-700 mb-2">Color</p>
+        <div className="flex flex-wrap gap-2">
+          {product.colors.map((color) => (
+            <button
+              key={color}
+              type="button"
+              onClick={() => selectColor(color)}
+              disabled={!isColorAvailable(product, color, selectedSize)}
+              className={optionClass(selectedColor === color)}
+            >
+              {color}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-2">
+          <button
+            type="button"
+            onClick={() => setQuantity(Math.max(1, quantity - 1))}
+            aria-label="Decrease quantity"
+            className="w-8 h-8 border border-gray-300 rounded flex items-center justify-center hover:bg-gray-50"
+          >
+            -
+          </button>
+          <span className="font-semibold w-8 text-center">{quantity}</span>
+          <button
+            type="button"
+            onClick={() => setQuantity(quantity + 1)}
+            disabled={available !== undefined && quantity >= available}
+            aria-label="Increase quantity"
+            className="w-8 h-8 border border-gray-300 rounded flex items-center justify-center hover:bg-gray-50 disabled:opacity-40 disabled:cursor-not-allowed"
+          >
+            +
+          </button>
+        </div>
+        <span className="text-sm text-gray-600">{getStockLabel(product, selectedVariant)}</span>
+      </div>
+
+      <button
+        type="button"
+        onClick={handleAdd}
+        disabled={!canAdd}
+        className="w-full bg-black text-white py-3 rounded-lg font-semibold hover:bg-gray-800 transition-colors disabled:bg-gray-300 disabled:cursor-not-allowed"
+      >
+        {buttonLabel}
+      </button>
+    </div>
+  );
+};
+
+export default QuickAddPicker;
@@ -0,0 +1,22 @@
+import React from 'react';
+import ProductCarousel from './ProductCarousel';
+import { useRecentlyViewed, useSimilarProducts } from '@/hooks/use-recommendations';
+
+// Personalised rows for returning shoppers; first-time visitors see nothing here.
+const HomeRecommendations = () => {
+  const { products: recentlyViewed } = useRecentlyViewed();
+  const lastViewed = recentlyViewed[0];
+  const viewedIds = recentlyViewed.map(product => product.id);
+  const recommended = useSimilarProducts(lastViewed).filter(product => !viewedIds.includes(product.id));
+
+  if (recentlyViewed.length === 0) return null;
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 pb-16 space-y-16">
+      <ProductCarousel title="Recently Viewed" products={recentlyViewed} />
+      <ProductCarousel title={`Because You Viewed ${lastViewed.name}`} products={recommended} />
+    </div>
+  );
+};
+
+export default HomeRecommendations;
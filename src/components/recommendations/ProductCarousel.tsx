@@ -0,0 +1,40 @@
+import React from 'react';
+import ProductCard from '../ProductCard';
+import {
+  Carousel,
+  CarouselContent,
+  CarouselItem,
+  CarouselNext,
+  CarouselPrevious,
+} from '@/components/ui/carousel';
+import type { Product } from '@/utils/mockData';
+
+interface ProductCarouselProps {
+  title: string;
+  products: Product[];
+  className?: string;
+}
+
+// Renders nothing when there is nothing to recommend.
+const ProductCarousel: React.FC<ProductCarouselProps> = ({ title, products, className = '' }) => {
+  if (products.length === 0) return null;
+
+  return (
+    <section className={className}>
+      <h2 className="text-2xl font-bold text-black mb-6">{title}</h2>
+      <Carousel opts={{ align: 'start' }} className="md:mx-12">
+        <CarouselContent>
+          {products.map((product) => (
+            <CarouselItem key={product.id} className="sm:basis-1/2 lg:basis-1/4">
+              <ProductCard product={product} />
+            </CarouselItem>
+          ))}
+        </CarouselContent>
+        <CarouselPrevious className="hidden md:flex" />
+        <CarouselNext className="hidden md:flex" />
+      </Carousel>
+    </section>
+  );
+};
+
+export default ProductCarousel;
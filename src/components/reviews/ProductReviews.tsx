@@ -0,0 +1,185 @@
+import React, { useState } from 'react';
+import { Link, useLocation } from 'react-router-dom';
+import StarRating from '../StarRating';
+import ReviewCard from './ReviewCard';
+import ReviewForm from './ReviewForm';
+import LoadError from '../LoadError';
+import { Skeleton } from '@/components/ui/skeleton';
+import { useAuth } from '@/context/AuthContext';
+import { useMarkReviewHelpful, useProductReviews } from '@/hooks/use-reviews';
+import {
+  applyReviewQuery,
+  FIT_LABELS,
+  summarizeReviews,
+  type Review,
+  type ReviewFit,
+  type ReviewRating,
+  type ReviewSort,
+} from '@/lib/reviews';
+import { toast } from 'sonner';
+
+interface ProductReviewsProps {
+  productId: number;
+}
+
+const RATINGS: ReviewRating[] = [5, 4, 3, 2, 1];
+
+const ProductReviews: React.FC<ProductReviewsProps> = ({ productId }) => {
+  const { currentUser } = useAuth();
+  const location = useLocation();
+  const { data: reviews = [], isPending, isError, refetch } = useProductReviews(productId);
+  const markHelpful = useMarkReviewHelpful();
+
+  const [sort, setSort] = useState<ReviewSort>('newest');
+  const [ratingFilter, setRatingFilter] = useState<ReviewRating | null>(null);
+  const [verifiedOnly, setVerifiedOnly] = useState(false);
+  const [isWriting, setIsWriting] = useState(false);
+
+  const summary = summarizeReviews(productId, reviews);
+  const visibleReviews = applyReviewQuery(reviews, { sort, rating: ratingFilter ?? undefined, verifiedOnly });
+  const hasReviewed = !!currentUser && reviews.some(review => review.userId === currentUser.id);
+  const commonFit = summary.count > 0
+    ? (Object.keys(summary.fit) as ReviewFit[]).reduce((best, fit) => (summary.fit[fit] > summary.fit[best] ? fit : best))
+    : null;
+
+  const handleHelpful = async (review: Review) => {
+    if (!currentUser) {
+      toast.info('Sign in to vote on reviews');
+      return;
+    }
+    try {
+      await markHelpful.mutateAsync({ reviewId: review.id, userId: currentUser.id });
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'We could not record your vote');
+    }
+  };
+
+  return (
+    <section className="mt-16 border-t border-gray-100 pt-12">
+      <h2 className="text-2xl font-bold text-black mb-8">Customer Reviews</h2>
+
+      {isPending ? (
+        <div className="space-y-4">
+          <Skeleton className="h-24 w-full" />
+          <Skeleton className="h-24 w-full" />
+        </div>
+      ) : isError ? (
+        <LoadError message="We couldn't load reviews." onRetry={() => refetch()} />
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-12">
+          {/* Summary */}
+          <div>
+            <div className="flex items-center mb-2">
+              <span className="text-4xl font-bold text-black mr-3">{summary.count > 0 ? summary.average.toFixed(1) : '–'}</span>
+              <StarRating rating={summary.average} size={20} />
+            </div>
+            <p className="text-gray-600 mb-6">
+              Based on {summary.count} review{summary.count === 1 ? '' : 's'}
+            </p>
+
+            <div className="space-y-2 mb-6">
+              {RATINGS.map((rating) => {
+                const count = summary.distribution[rating];
+                const share = summary.count > 0 ? (count / summary.count) * 100 : 0;
+                return (
+                  <button
+                    key={rating}
+                    onClick={() => setRatingFilter(ratingFilter === rating ? null : rating)}
+                    disabled={count === 0}
+                    className={`w-full flex items-center text-sm disabled:cursor-default ${
+                      ratingFilter === rating ? 'text-blue-600 font-semibold' : 'text-gray-700'
+                    }`}
+                  >
+                    <span className="w-12 text-left">{rating} star</span>
+                    <span className="flex-1 h-2 bg-gray-100 rounded-full mx-3 overflow-hidden">
+                      <span className="block h-full bg-yellow-400" style={{ width: `${share}%` }} />
+                    </span>
+                    <span className="w-8 text-right">{count}</span>
+                  </button>
+                );
+              })}
+            </div>
+
+            {commonFit && (
+              <p className="text-sm text-gray-700 mb-6">
+                <span className="font-medium">Fit:</span> Most customers say it {FIT_LABELS[commonFit].toLowerCase()}
+              </p>
+            )}
+
+            {!currentUser ? (
+              <Link
+                to="/login"
+                state={{ from: location }}
+                className="inline-block border-2 border-gray-300 text-gray-700 px-6 py-3 rounded-lg font-semibold hover:bg-gray-50 transition-colors"
+              >
+                Sign in to write a review
+              </Link>
+            ) : hasReviewed ? (
+              <p className="text-sm text-gray-600">Thanks, you've reviewed this product.</p>
+            ) : (
+              !isWriting && (
+                <button
+                  onClick={() => setIsWriting(true)}
+                  className="bg-black text-white px-6 py-3 rounded-lg font-semibold hover:bg-gray-800 transition-colors"
+                >
+                  Write a Review
+                </button>
+              )
+            )}
+          </div>
+
+          {/* Reviews */}
+          <div className="lg:col-span-2">
+            {isWriting && currentUser && !hasReviewed && (
+              <div className="mb-8">
+                <ReviewForm productId={productId} user={currentUser} onSubmitted={() => setIsWriting(false)} />
+              </div>
+            )}
+
+            {summary.count > 0 && (
+              <div className="flex flex-wrap items-center justify-between gap-4 mb-2">
+                <label className="flex items-center text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={verifiedOnly}
+                    onChange={(e) => setVerifiedOnly(e.target.checked)}
+                    className="mr-2"
+                  />
+                  Verified purchases only
+                </label>
+                <select
+                  value={sort}
+                  onChange={(e) => setSort(e.target.value as ReviewSort)}
+                  className="border border-gray-300 rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                >
+                  <option value="newest">Newest</option>
+                  <option value="helpful">Most Helpful</option>
+                  <option value="highest">Highest Rated</option>
+                  <option value="lowest">Lowest Rated</option>
+                </select>
+              </div>
+            )}
+
+            {visibleReviews.map((review) => (
+              <ReviewCard
+                key={review.id}
+                review={review}
+                currentUserId={currentUser?.id ?? null}
+                onHelpful={handleHelpful}
+              />
+            ))}
+
+            {summary.count === 0 && !isWriting && (
+              <p className="text-gray-600">No reviews yet. Be the first to share your thoughts.</p>
+            )}
+            {summary.count > 0 && visibleReviews.length === 0 && (
+              <p className="text-gray-600 py-6">No reviews match these filters.</p>
+            )}
+          </div>
+        </div>
+      )}
+    </section>
+  );
+};
+
+export default ProductReviews;
@@ -0,0 +1,51 @@
+import React from 'react';
+import { format } from 'date-fns';
+import { BadgeCheck, ThumbsUp } from 'lucide-react';
+import StarRating from '../StarRating';
+import { FIT_LABELS, type Review } from '@/lib/reviews';
+
+interface ReviewCardProps {
+  review: Review;
+  currentUserId: string | null;
+  onHelpful: (review: Review) => void;
+}
+
+const ReviewCard: React.FC<ReviewCardProps> = ({ review, currentUserId, onHelpful }) => {
+  const hasVoted = !!currentUserId && review.helpfulVotes.includes(currentUserId);
+  const isOwnReview = review.userId === currentUserId;
+
+  return (
+    <article className="border-b border-gray-100 py-6 last:border-b-0">
+      <div className="flex items-center justify-between mb-2">
+        <StarRating rating={review.rating} />
+        <span className="text-sm text-gray-500">{format(new Date(review.createdAt), 'MMM d, yyyy')}</span>
+      </div>
+      <h4 className="font-semibold text-black">{review.title}</h4>
+      <p className="text-sm text-gray-600 mb-3">
+        {review.authorName}
+        {review.verifiedPurchase && (
+          <span className="inline-flex items-center text-green-700 ml-3">
+            <BadgeCheck size={14} className="mr-1" />
+            Verified purchase
+          </span>
+        )}
+      </p>
+      <p className="text-gray-700 leading-relaxed mb-3">{review.body}</p>
+      <div className="flex items-center justify-between text-sm">
+        <span className="text-gray-600">Fit: {FIT_LABELS[review.fit]}</span>
+        {!isOwnReview && (
+          <button
+            onClick={() => onHelpful(review)}
+            disabled={hasVoted}
+            className="inline-flex items-center text-gray-600 hover:text-blue-600 disabled:text-blue-600 disabled:cursor-default"
+          >
+            <ThumbsUp size={14} className="mr-1" />
+            Helpful ({review.helpfulVotes.length})
+          </button>
+        )}
+      </div>
+    </article>
+  );
+};
+
+export default ReviewCard;
@@ -0,0 +1,151 @@
+import React from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { Star } from 'lucide-react';
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { useCreateReview } from '@/hooks/use-reviews';
+import {
+  FIT_LABELS,
+  reviewDefaultValues,
+  reviewSchema,
+  type ReviewFit,
+  type ReviewFormValues,
+  type ReviewRating,
+} from '@/lib/reviews';
+import type { User } from '@/lib/auth';
+import { toast } from 'sonner';
+
+interface ReviewFormProps {
+  productId: number;
+  user: User;
+  onSubmitted: () => void;
+}
+
+const ReviewForm: React.FC<ReviewFormProps> = ({ productId, user, onSubmitted }) => {
+  const createReview = useCreateReview();
+  const form = useForm<ReviewFormValues>({
+    resolver: zodResolver(reviewSchema),
+    defaultValues: reviewDefaultValues,
+  });
+
+  const onSubmit = async (values: ReviewFormValues) => {
+    try {
+      await createReview.mutateAsync({
+        productId,
+        userId: user.id,
+        authorName: `${user.firstName} ${user.lastName.charAt(0)}.`,
+        rating: values.rating as ReviewRating,
+        title: values.title,
+        body: values.body,
+        fit: values.fit,
+      });
+      toast.success('Thanks for your review!');
+      form.reset(reviewDefaultValues);
+      onSubmitted();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'We could not post your review');
+    }
+  };
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4 bg-gray-50 rounded-lg p-6" noValidate>
+        <FormField
+          control={form.control}
+          name="rating"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Rating</FormLabel>
+              <div className="flex" role="radiogroup">
+                {([1, 2, 3, 4, 5] as const).map((value) => (
+                  <button
+                    key={value}
+                    type="button"
+                    role="radio"
+                    aria-checked={field.value === value}
+                    aria-label={`${value} star${value === 1 ? '' : 's'}`}
+                    onClick={() => field.onChange(value)}
+                    className="p-1"
+                  >
+                    <Star
+                      size={24}
+                      className={value <= field.value ? 'fill-yellow-400 text-yellow-400' : 'text-gray-300'}
+                    />
+                  </button>
+                ))}
+              </div>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="title"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Title</FormLabel>
+              <FormControl>
+                <Input placeholder="Sum it up in a few words" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="body"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Review</FormLabel>
+              <FormControl>
+                <Textarea rows={5} placeholder="What did you like or dislike?" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="fit"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>How does it fit?</FormLabel>
+              <div className="flex flex-wrap gap-3">
+                {(Object.keys(FIT_LABELS) as ReviewFit[]).map((fit) => (
+                  <button
+                    key={fit}
+                    type="button"
+                    onClick={() => field.onChange(fit)}
+                    className={`px-4 py-2 border rounded-lg text-sm font-medium transition-colors ${
+                      field.value === fit
+                        ? 'border-blue-600 bg-blue-600 text-white'
+                        : 'border-gray-300 text-gray-700 hover:border-blue-600'
+                    }`}
+                  >
+                    {FIT_LABELS[fit]}
+                  </button>
+                ))}
+              </div>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <button
+          type="submit"
+          disabled={createReview.isPending}
+          className="bg-black text-white px-6 py-3 rounded-lg font-semibold hover:bg-gray-800 transition-colors disabled:opacity-60"
+        >
+          {createReview.isPending ? 'Posting...' : 'Post Review'}
+        </button>
+      </form>
+    </Form>
+  );
+};
+
+export default ReviewForm;
@@ -0,0 +1,174 @@
+import React from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import {
+  describeRecommendation,
+  fitProfileSchema,
+  fromCentimetres,
+  recommendSize,
+  toFitProfile,
+  type FitMethod,
+  type FitProfile,
+  type FitProfileFormValues,
+  type MeasurementUnit,
+  type SizeChart,
+} from '@/lib/sizing';
+
+interface FitFinderProps {
+  chart: SizeChart;
+  sizes: string[];
+  unit: MeasurementUnit;
+  profile: FitProfile | null;
+  onProfileChange: (profile: FitProfile | null) => void;
+  onSelectSize?: (size: string) => void;
+}
+
+const METHODS: Record<FitMethod, { label: string; hint: string }> = {
+  body: {
+    label: 'My measurements',
+    hint: 'Measure around the fullest part of your chest, and from the shoulder seam to the wrist for sleeve length.',
+  },
+  reference: {
+    label: 'A shirt I own',
+    hint: 'Lay a shirt that fits you well flat and measure it: chest from armpit to armpit (doubled), length from collar to hem.',
+  },
+};
+
+const displayValue = (cm: number | undefined, unit: MeasurementUnit) =>
+  cm === undefined ? '' : String(fromCentimetres(cm, unit));
+
+const toFormValues = (profile: FitProfile | null, unit: MeasurementUnit): FitProfileFormValues => ({
+  method: profile?.method ?? 'body',
+  unit,
+  chest: displayValue(profile?.chest, unit),
+  length: profile?.method === 'reference' ? displayValue(profile.length, unit) : '',
+  sleeve: displayValue(profile?.sleeve, unit),
+});
+
+const FitFinder: React.FC<FitFinderProps> = ({ chart, sizes, unit, profile, onProfileChange, onSelectSize }) => {
+  const form = useForm<FitProfileFormValues>({
+    resolver: zodResolver(fitProfileSchema),
+    values: toFormValues(profile, unit),
+  });
+  const method = form.watch('method');
+  const recommendation = profile ? recommendSize(chart, sizes, profile) : null;
+
+  const onSubmit = (values: FitProfileFormValues) => {
+    onProfileChange(toFitProfile(values));
+  };
+
+  return (
+    <div className="space-y-6">
+      {recommendation && (
+        <div className="rounded-lg bg-blue-50 p-4">
+          <p className="font-semibold text-black">Your size: {recommendation.size}</p>
+          <p className="text-sm text-gray-700 mt-1">{describeRecommendation(recommendation)}</p>
+          <div className="flex gap-4 mt-3">
+            {onSelectSize && (
+              <button
+                type="button"
+                onClick={() => onSelectSize(recommendation.size)}
+                className="text-blue-600 hover:text-blue-700 text-sm font-medium"
+              >
+                Select {recommendation.size}
+              </button>
+            )}
+            <button
+              type="button"
+              onClick={() => onProfileChange(null)}
+              className="text-gray-500 hover:text-gray-700 text-sm font-medium"
+            >
+              Forget my measurements
+            </button>
+          </div>
+        </div>
+      )}
+
+      <Form {...form}>
+        <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4" noValidate>
+          <FormField
+            control={form.control}
+            name="method"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Recommend a size from</FormLabel>
+                <div className="flex flex-wrap gap-3">
+                  {(Object.keys(METHODS) as FitMethod[]).map((value) => (
+                    <button
+                      key={value}
+                      type="button"
+                      onClick={() => field.onChange(value)}
+                      className={`px-4 py-2 border rounded-lg text-sm font-medium transition-colors ${
+                        field.value === value
+                          ? 'border-blue-600 bg-blue-600 text-white'
+                          : 'border-gray-300 text-gray-700 hover:border-blue-600'
+                      }`}
+                    >
+                      {METHODS[value].label}
+                    </button>
+                  ))}
+                </div>
+                <p className="text-sm text-gray-500">{METHODS[method].hint}</p>
+              </FormItem>
+            )}
+          />
+
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+            <FormField
+              control={form.control}
+              name="chest"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Chest ({unit})</FormLabel>
+                  <FormControl>
+                    <Input type="number" inputMode="decimal" step="0.5" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            {method === 'reference' && (
+              <FormField
+                control={form.control}
+                name="length"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Length ({unit}, optional)</FormLabel>
+                    <FormControl>
+                      <Input type="number" inputMode="decimal" step="0.5" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+            <FormField
+              control={form.control}
+              name="sleeve"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Sleeve ({unit}, optional)</FormLabel>
+                  <FormControl>
+                    <Input type="number" inputMode="decimal" step="0.5" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          </div>
+
+          <button
+            type="submit"
+            className="bg-black text-white px-6 py-3 rounded-lg font-semibold hover:bg-gray-800 transition-colors"
+          >
+            {profile ? 'Update My Size' : 'Find My Size'}
+          </button>
+        </form>
+      </Form>
+    </div>
+  );
+};
+
+export default FitFinder;
@@ -0,0 +1,39 @@
+import React from 'react';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { fromCentimetres, getChartSizes, type MeasurementUnit, type SizeChart } from '@/lib/sizing';
+
+interface SizeChartTableProps {
+  chart: SizeChart;
+  unit: MeasurementUnit;
+  // Limits the rows to the sizes a product is made in.
+  sizes?: string[];
+  highlightSize?: string;
+}
+
+const SizeChartTable: React.FC<SizeChartTableProps> = ({ chart, unit, sizes, highlightSize }) => (
+  <Table>
+    <TableHeader>
+      <TableRow>
+        <TableHead>Size</TableHead>
+        <TableHead>Chest ({unit})</TableHead>
+        <TableHead>Length ({unit})</TableHead>
+        <TableHead>Sleeve ({unit})</TableHead>
+      </TableRow>
+    </TableHeader>
+    <TableBody>
+      {getChartSizes(chart, sizes).map((size) => {
+        const measurements = chart.sizes[size];
+        return (
+          <TableRow key={size} className={size === highlightSize ? 'bg-blue-50 hover:bg-blue-50' : undefined}>
+            <TableCell className="font-semibold">{size}</TableCell>
+            <TableCell>{fromCentimetres(measurements.chest, unit)}</TableCell>
+            <TableCell>{fromCentimetres(measurements.length, unit)}</TableCell>
+            <TableCell>{fromCentimetres(measurements.sleeve, unit)}</TableCell>
+          </TableRow>
+        );
+      })}
+    </TableBody>
+  </Table>
+);
+
+export default SizeChartTable;
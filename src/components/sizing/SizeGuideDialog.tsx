@@ -0,0 +1,79 @@
+import React, { useState } from 'react';
+import { Ruler } from 'lucide-react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import SizeChartTable from './SizeChartTable';
+import FitFinder from './FitFinder';
+import UnitToggle from './UnitToggle';
+import { FIT_STYLE_LABELS, getSizeChart, type FitProfile, type MeasurementUnit } from '@/lib/sizing';
+
+interface SizeGuideDialogProps {
+  category: string;
+  sizes: string[];
+  selectedSize: string;
+  profile: FitProfile | null;
+  onProfileChange: (profile: FitProfile | null) => void;
+  onSelectSize: (size: string) => void;
+}
+
+const SizeGuideDialog: React.FC<SizeGuideDialogProps> = ({
+  category,
+  sizes,
+  selectedSize,
+  profile,
+  onProfileChange,
+  onSelectSize,
+}) => {
+  const [open, setOpen] = useState(false);
+  const [unit, setUnit] = useState<MeasurementUnit>(profile?.unit ?? 'cm');
+  const chart = getSizeChart(category);
+
+  const selectSize = (size: string) => {
+    onSelectSize(size);
+    setOpen(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <button type="button" className="flex items-center gap-1 text-sm text-blue-600 hover:text-blue-700 font-medium">
+          <Ruler size={16} />
+          Size guide
+        </button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Size Guide</DialogTitle>
+          <DialogDescription>
+            {category} shirts are cut for a {FIT_STYLE_LABELS[chart.fit].toLowerCase()}. Measurements are of the garment laid flat.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Tabs defaultValue={profile ? 'finder' : 'chart'}>
+          <div className="flex justify-between items-center gap-4">
+            <TabsList>
+              <TabsTrigger value="chart">Size chart</TabsTrigger>
+              <TabsTrigger value="finder">Find my size</TabsTrigger>
+            </TabsList>
+            <UnitToggle unit={unit} onChange={setUnit} />
+          </div>
+          <TabsContent value="chart">
+            <SizeChartTable chart={chart} unit={unit} sizes={sizes} highlightSize={selectedSize} />
+          </TabsContent>
+          <TabsContent value="finder">
+            <FitFinder
+              chart={chart}
+              sizes={sizes}
+              unit={unit}
+              profile={profile}
+              onProfileChange={onProfileChange}
+              onSelectSize={selectSize}
+            />
+          </TabsContent>
+        </Tabs>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default SizeGuideDialog;
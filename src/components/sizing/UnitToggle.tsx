@@ -0,0 +1,30 @@
+import React from 'react';
+import type { MeasurementUnit } from '@/lib/sizing';
+
+interface UnitToggleProps {
+  unit: MeasurementUnit;
+  onChange: (unit: MeasurementUnit) => void;
+}
+
+const UNITS: MeasurementUnit[] = ['cm', 'in'];
+
+const UnitToggle: React.FC<UnitToggleProps> = ({ unit, onChange }) => (
+  <div className="inline-flex rounded-lg border border-gray-300 overflow-hidden" role="radiogroup" aria-label="Units">
+    {UNITS.map((value) => (
+      <button
+        key={value}
+        type="button"
+        role="radio"
+        aria-checked={unit === value}
+        onClick={() => onChange(value)}
+        className={`px-3 py-1 text-sm font-medium transition-colors ${
+          unit === value ? 'bg-blue-600 text-white' : 'text-gray-700 hover:bg-gray-50'
+        }`}
+      >
+        {value}
+      </button>
+    ))}
+  </div>
+);
+
+export default UnitToggle;
@@ -0,0 +1,163 @@
+import React, { createContext, useCallback, useContext, useEffect, useRef, useState, ReactNode } from 'react';
+import {
+  clearSession,
+  createMockAuthClient,
+  isSessionRemembered,
+  loadSession,
+  saveSession,
+  subscribeToSession,
+  type AuthClient,
+  type AuthSession,
+  type RegisterInput,
+  type User,
+} from '@/lib/auth';
+
+// Refresh the access token this long before it actually expires.
+const REFRESH_MARGIN = 60 * 1000;
+
+interface AuthContextType {
+  currentUser: User | null;
+  isLoading: boolean;
+  login: (email: string, password: string, options?: { remember?: boolean }) => Promise<User>;
+  register: (input: RegisterInput) => Promise<User>;
+  logout: () => Promise<void>;
+  getAccessToken: () => Promise<string | null>;
+}
+
+const AuthContext = createContext<AuthContextType | undefined>(undefined);
+
+export const AuthProvider: React.FC<{ client?: AuthClient; children: ReactNode }> = ({
+  client: clientProp,
+  children,
+}) => {
+  const [defaultClient] = useState(createMockAuthClient);
+  const client = clientProp ?? defaultClient;
+
+  const [session, setSession] = useState<AuthSession | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const sessionRef = useRef<AuthSession | null>(null);
+
+  const applySession = useCallback((next: AuthSession | null, remember?: boolean) => {
+    sessionRef.current = next;
+    setSession(next);
+    if (next) {
+      saveSession(next, remember ?? isSessionRemembered());
+    } else {
+      clearSession();
+    }
+  }, []);
+
+  // Takes on a session another tab has already stored, without writing it back.
+  const adoptSession = useCallback((next: AuthSession | null) => {
+    sessionRef.current = next;
+    setSession(next);
+  }, []);
+
+  // Refresh tokens rotate, so every tab refreshes from the latest stored token and
+  // a tab that loses the race picks up the winner's session instead of signing out.
+  const refreshSession = useCallback(async () => {
+    const current = sessionRef.current;
+    if (!current) return null;
+
+    const stored = loadSession();
+    if (stored && stored.refreshToken !== current.refreshToken && stored.expiresAt - REFRESH_MARGIN > Date.now()) {
+      adoptSession(stored);
+      return stored;
+    }
+
+    const refreshToken = stored?.refreshToken ?? current.refreshToken;
+    try {
+      const next = await client.refresh(refreshToken);
+      applySession(next);
+      return next;
+    } catch {
+      const latest = loadSession();
+      if (latest && latest.refreshToken !== refreshToken) {
+        adoptSession(latest);
+        return latest;
+      }
+      applySession(null);
+      return null;
+    }
+  }, [client, applySession, adoptSession]);
+
+  // Restore the stored session on startup, refreshing it if the access token has lapsed.
+  useEffect(() => {
+    const stored = loadSession();
+    sessionRef.current = stored;
+
+    if (!stored) {
+      setIsLoading(false);
+      return;
+    }
+
+    if (stored.expiresAt > Date.now()) {
+      setSession(stored);
+      setIsLoading(false);
+      return;
+    }
+
+    refreshSession().finally(() => setIsLoading(false));
+  }, [refreshSession]);
+
+  // Follow sign-ins, refreshes and sign-outs made in other tabs.
+  useEffect(() => subscribeToSession(adoptSession), [adoptSession]);
+
+  useEffect(() => {
+    if (!session) return;
+    const delay = Math.max(0, session.expiresAt - Date.now() - REFRESH_MARGIN);
+    const timer = window.setTimeout(refreshSession, delay);
+    return () => window.clearTimeout(timer);
+  }, [session, refreshSession]);
+
+  const login = async (email: string, password: string, options: { remember?: boolean } = {}) => {
+    const next = await client.login(email, password);
+    applySession(next, options.remember ?? false);
+    return next.user;
+  };
+
+  const register = async (input: RegisterInput) => {
+    const next = await client.register(input);
+    applySession(next, false);
+    return next.user;
+  };
+
+  const logout = async () => {
+    const current = sessionRef.current;
+    applySession(null);
+    if (current) {
+      await client.logout(current.refreshToken).catch(() => undefined);
+    }
+  };
+
+  const getAccessToken = async () => {
+    const current = sessionRef.current;
+    if (!current) return null;
+    if (current.expiresAt - REFRESH_MARGIN > Date.now()) return current.accessToken;
+    const next = await refreshSession();
+    return next?.accessToken ?? null;
+  };
+
+  return (
+    <AuthContext.Provider
+      value={{
+        currentUser: session?.user ?? null,
+        isLoading,
+        login,
+        register,
+        logout,
+        getAccessToken,
+      }}
+    >
+      {children}
+    </AuthContext.Provider>
+  );
+};
+
+export const useAuth = (): AuthContextType => {
+  const context = useContext(AuthContext);
+  if (!context) {
+    throw new Error('useAuth must be used within an AuthProvider');
+  }
+  return context;
+};
@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { cartReducer, CartItemInput, CartState } from './CartContext';
+
+const emptyCart: CartState = { cartItems: [], couponCode: null };
+
+const tee = (overrides: Partial<CartItemInput> = {}): CartItemInput => ({
+  id: 1,
+  sku: 'TEE-M-BLK',
+  name: 'Classic Tee',
+  price: 25,
+  image: '/tee.jpg',
+  size: 'M',
+  color: 'Black',
+  quantity: 1,
+  ...overrides,
+});
+
+const addAll = (items: CartItemInput[], state = emptyCart) =>
+  items.reduce((next, item) => cartReducer(next, { type: 'ADD_TO_CART', payload: item }), state);
+
+describe('cartReducer', () => {
+  it('merges additions of the same product, size and color into one line', () => {
+    const state = addAll([tee({ quantity: 2 }), tee({ quantity: 3 })]);
+
+    expect(state.cartItems).toHaveLength(1);
+    expect(state.cartItems[0].lineId).toBe('1:M:Black');
+    expect(state.cartItems[0].quantity).toBe(5);
+  });
+
+  it('keeps separate lines for different sizes and colors', () => {
+    const state = addAll([tee(), tee({ size: 'L', sku: 'TEE-L-BLK' }), tee({ color: 'White', sku: 'TEE-M-WHT' })]);
+
+    expect(state.cartItems.map(item => item.lineId)).toEqual(['1:M:Black', '1:L:Black', '1:M:White']);
+  });
+
+  it('addresses lines by line id after the list is reordered', () => {
+    let state = addAll([
+      tee(),
+      tee({ id: 2, sku: 'HOOD-M-GRY', color: 'Grey' }),
+      tee({ id: 3, sku: 'CAP-OS-RED', size: 'One Size', color: 'Red' }),
+    ]);
+
+    state = cartReducer(state, { type: 'REMOVE_FROM_CART', payload: '1:M:Black' });
+    state = addAll([tee()], state);
+    state = cartReducer(state, { type: 'UPDATE_QUANTITY', payload: { lineId: '3:One Size:Red', quantity: 4 } });
+    state = cartReducer(state, { type: 'REMOVE_FROM_CART', payload: '2:M:Grey' });
+
+    expect(state.cartItems.map(item => [item.lineId, item.quantity])).toEqual([
+      ['3:One Size:Red', 4],
+      ['1:M:Black', 1],
+    ]);
+  });
+
+  it('caps quantities at the stock limit when adding and merging', () => {
+    let state = addAll([tee({ quantity: 8, maxQuantity: 5 })]);
+    expect(state.cartItems[0].quantity).toBe(5);
+
+    state = addAll([tee({ quantity: 1, maxQuantity: 5 })], state);
+    expect(state.cartItems[0].quantity).toBe(5);
+  });
+
+  it('uses the latest stock limit when merging', () => {
+    const state = addAll([tee({ quantity: 4, maxQuantity: 10 }), tee({ quantity: 4, maxQuantity: 6 })]);
+
+    expect(state.cartItems[0].maxQuantity).toBe(6);
+    expect(state.cartItems[0].quantity).toBe(6);
+  });
+
+  it('caps quantity updates at the stock limit', () => {
+    let state = addAll([tee({ quantity: 1, maxQuantity: 3 })]);
+    state = cartReducer(state, { type: 'UPDATE_QUANTITY', payload: { lineId: '1:M:Black', quantity: 9 } });
+
+    expect(state.cartItems[0].quantity).toBe(3);
+  });
+});
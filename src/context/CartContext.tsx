@@ -1,83 +1,125 @@
 
-import React, { createContext, useContext, useReducer, ReactNode } from 'react';
+import React, { createContext, useContext, useEffect, useReducer, useRef, useState, ReactNode } from 'react';
+import { createCartChannel, loadCartState, saveCartState } from '@/lib/cartStorage';
+import { getCartLineId } from '@/lib/cartLine';
 
 export interface CartItem {
+  lineId: string;
   id: number;
+  sku: string;
   name: string;
   price: number;
   image: string;
   size: string;
   color: string;
   quantity: number;
+  // Units in stock for this SKU when it was added; quantities are capped at it.
+  maxQuantity?: number;
 }
 
-interface CartState {
+export type CartItemInput = Omit<CartItem, 'lineId'>;
+
+export interface CartState {
   cartItems: CartItem[];
+  couponCode: string | null;
 }
 
-type CartAction =
-  | { type: 'ADD_TO_CART'; payload: CartItem }
-  | { type: 'REMOVE_FROM_CART'; payload: number }
-  | { type: 'UPDATE_QUANTITY'; payload: { id: number; quantity: number } }
+export type CartAction =
+  | { type: 'ADD_TO_CART'; payload: CartItemInput }
+  | { type: 'REMOVE_FROM_CART'; payload: string }
+  | { type: 'UPDATE_QUANTITY'; payload: { lineId: string; quantity: number } }
+  | { type: 'APPLY_COUPON'; payload: string }
+  | { type: 'REMOVE_COUPON' }
   | { type: 'CLEAR_CART' };
 
 interface CartContextType extends CartState {
-  addToCart: (item: CartItem) => void;
-  removeFromCart: (id: number) => void;
-  updateQuantity: (id: number, quantity: number) => void;
+  addToCart: (item: CartItemInput) => void;
+  removeFromCart: (lineId: string) => void;
+  updateQuantity: (lineId: string, quantity: number) => void;
+  applyCoupon: (code: string) => void;
+  removeCoupon: () => void;
   clearCart: () => void;
   getCartTotal: () => number;
+  // The slide-out mini-cart; opened after every addToCart.
+  isMiniCartOpen: boolean;
+  setMiniCartOpen: (open: boolean) => void;
 }
 
 const CartContext = createContext<CartContextType | undefined>(undefined);
 
-const cartReducer = (state: CartState, action: CartAction): CartState => {
+const clampQuantity = (quantity: number, maxQuantity?: number) =>
+  maxQuantity === undefined ? quantity : Math.min(quantity, maxQuantity);
+
+export const cartReducer = (state: CartState, action: CartAction): CartState => {
   switch (action.type) {
-    case 'ADD_TO_CART':
-      const existingItem = state.cartItems.find(
-        item => item.id === action.payload.id && 
-                item.size === action.payload.size && 
-                item.color === action.payload.color
-      );
-      
+    case 'ADD_TO_CART': {
+      const lineId = getCartLineId(action.payload.id, action.payload.size, action.payload.color);
+      const existingItem = state.cartItems.find(item => item.lineId === lineId);
+
       if (existingItem) {
         return {
           ...state,
           cartItems: state.cartItems.map(item =>
-            item.id === action.payload.id && 
-            item.size === action.payload.size && 
-            item.color === action.payload.color
-              ? { ...item, quantity: item.quantity + action.payload.quantity }
+            item.lineId === lineId
+              ? {
+                  ...item,
+                  maxQuantity: action.payload.maxQuantity ?? item.maxQuantity,
+                  quantity: clampQuantity(
+                    item.quantity + action.payload.quantity,
+                    action.payload.maxQuantity ?? item.maxQuantity
+                  ),
+                }
               : item
           ),
         };
       }
-      
+
       return {
         ...state,
-        cartItems: [...state.cartItems, action.payload],
+        cartItems: [
+          ...state.cartItems,
+          {
+            ...action.payload,
+            lineId,
+            quantity: clampQuantity(action.payload.quantity, action.payload.maxQuantity),
+          },
+        ],
       };
+    }
 
     case 'REMOVE_FROM_CART':
       return {
         ...state,
-        cartItems: state.cartItems.filter((_, index) => index !== action.payload),
+        cartItems: state.cartItems.filter(item => item.lineId !== action.payload),
       };
 
     case 'UPDATE_QUANTITY':
       return {
         ...state,
-        cartItems: state.cartItems.map((item, index) =>
-          index === action.payload.id
-            ? { ...item, quantity: action.payload.quantity }
+        cartItems: state.cartItems.map(item =>
+          item.lineId === action.payload.lineId
+            ? { ...item, quantity: clampQuantity(action.payload.quantity, item.maxQuantity) }
             : item
         ),
       };
 
+    case 'APPLY_COUPON':
+      return {
+        ...state,
+        couponCode: action.payload,
+      };
+
+    case 'REMOVE_COUPON':
+      return {
+        ...state,
+        couponCode: null,
+      };
+
     case 'CLEAR_CART':
       return {
         ...state,
         cartItems: [],
+        couponCode: null,
       };
 
     default:
@@ -86,24 +128,60 @@ const cartReducer = (state: CartState, action: CartAction): CartState => {
 };
 
 export const CartProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
-  const [state, dispatch] = useReducer(cartReducer, { cartItems: [] });
+  const [state, localDispatch] = useReducer(cartReducer, undefined, loadCartState);
+  const channelRef = useRef<BroadcastChannel | null>(null);
+  const [isMiniCartOpen, setMiniCartOpen] = useState(false);
+
+  useEffect(() => {
+    const channel = createCartChannel();
+    if (!channel) return;
+
+    channelRef.current = channel;
+    // Actions from other tabs are applied locally only, never re-broadcast.
+    channel.onmessage = (event: MessageEvent<CartAction>) => {
+      localDispatch(event.data);
+    };
+
+    return () => {
+      channelRef.current = null;
+      channel.close();
+    };
+  }, []);
+
+  useEffect(() => {
+    saveCartState(state);
+  }, [state]);
+
+  const dispatch = (action: CartAction) => {
+    localDispatch(action);
+    channelRef.current?.postMessage(action);
+  };
 
-  const addToCart = (item: CartItem) => {
+  const addToCart = (item: CartItemInput) => {
     dispatch({ type: 'ADD_TO_CART', payload: item });
+    setMiniCartOpen(true);
   };
 
-  const removeFromCart = (index: number) => {
-    dispatch({ type: 'REMOVE_FROM_CART', payload: index });
+  const removeFromCart = (lineId: string) => {
+    dispatch({ type: 'REMOVE_FROM_CART', payload: lineId });
   };
 
-  const updateQuantity = (index: number, quantity: number) => {
+  const updateQuantity = (lineId: string, quantity: number) => {
     if (quantity <= 0) {
-      removeFromCart(index);
+      removeFromCart(lineId);
     } else {
-      dispatch({ type: 'UPDATE_QUANTITY', payload: { id: index, quantity } });
+      dispatch({ type: 'UPDATE_QUANTITY', payload: { lineId, quantity } });
     }
   };
 
+  const applyCoupon = (code: string) => {
+    dispatch({ type: 'APPLY_COUPON', payload: code });
+  };
+
+  const removeCoupon = () => {
+    dispatch({ type: 'REMOVE_COUPON' });
+  };
+
   const clearCart = () => {
     dispatch({ type: 'CLEAR_CART' });
   };
@@ -119,8 +197,12 @@ export const CartProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
         addToCart,
         removeFromCart,
         updateQuantity,
+        applyCoupon,
+        removeCoupon,
         clearCart,
         getCartTotal,
+        isMiniCartOpen,
+        setMiniCartOpen,
       }}
     >
       {children}
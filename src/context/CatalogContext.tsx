@@ -0,0 +1,32 @@
+import React, { createContext, useContext, useRef, useState, ReactNode } from 'react';
+import { createDefaultProductRepository, type ProductRepository } from '@/lib/catalog';
+import { useAuth } from './AuthContext';
+
+const CatalogContext = createContext<ProductRepository | undefined>(undefined);
+
+export const CatalogProvider: React.FC<{ repository?: ProductRepository; children: ReactNode }> = ({
+  repository,
+  children,
+}) => {
+  const { getAccessToken } = useAuth();
+  const getAccessTokenRef = useRef(getAccessToken);
+  getAccessTokenRef.current = getAccessToken;
+
+  const [defaultRepository] = useState(() =>
+    createDefaultProductRepository(() => getAccessTokenRef.current())
+  );
+
+  return (
+    <CatalogContext.Provider value={repository ?? defaultRepository}>
+      {children}
+    </CatalogContext.Provider>
+  );
+};
+
+export const useProductRepository = (): ProductRepository => {
+  const context = useContext(CatalogContext);
+  if (!context) {
+    throw new Error('useProductRepository must be used within a CatalogProvider');
+  }
+  return context;
+};
@@ -0,0 +1,25 @@
+import React, { createContext, useContext, useState, ReactNode } from 'react';
+import { createDefaultMerchandisingSource, type MerchandisingSource } from '@/lib/merchandising';
+
+const MerchandisingContext = createContext<MerchandisingSource | undefined>(undefined);
+
+export const MerchandisingProvider: React.FC<{ source?: MerchandisingSource; children: ReactNode }> = ({
+  source,
+  children,
+}) => {
+  const [defaultSource] = useState(createDefaultMerchandisingSource);
+
+  return (
+    <MerchandisingContext.Provider value={source ?? defaultSource}>
+      {children}
+    </MerchandisingContext.Provider>
+  );
+};
+
+export const useMerchandisingSource = (): MerchandisingSource => {
+  const context = useContext(MerchandisingContext);
+  if (!context) {
+    throw new Error('useMerchandisingSource must be used within a MerchandisingProvider');
+  }
+  return context;
+};
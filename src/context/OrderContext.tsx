@@ -0,0 +1,32 @@
+import React, { createContext, useContext, useRef, useState, ReactNode } from 'react';
+import { createDefaultOrderService, type OrderService } from '@/lib/orders';
+import { useAuth } from './AuthContext';
+
+const OrderContext = createContext<OrderService | undefined>(undefined);
+
+export const OrderProvider: React.FC<{ service?: OrderService; children: ReactNode }> = ({
+  service,
+  children,
+}) => {
+  const { getAccessToken } = useAuth();
+  const getAccessTokenRef = useRef(getAccessToken);
+  getAccessTokenRef.current = getAccessToken;
+
+  const [defaultService] = useState(() =>
+    createDefaultOrderService(() => getAccessTokenRef.current())
+  );
+
+  return (
+    <OrderContext.Provider value={service ?? defaultService}>
+      {children}
+    </OrderContext.Provider>
+  );
+};
+
+export const useOrderService = (): OrderService => {
+  const context = useContext(OrderContext);
+  if (!context) {
+    throw new Error('useOrderService must be used within an OrderProvider');
+  }
+  return context;
+};
@@ -0,0 +1,25 @@
+import React, { createContext, useContext, useState, ReactNode } from 'react';
+import { createDefaultPaymentProvider, type PaymentProvider } from '@/lib/payments';
+
+const PaymentContext = createContext<PaymentProvider | undefined>(undefined);
+
+export const PaymentGatewayProvider: React.FC<{ provider?: PaymentProvider; children: ReactNode }> = ({
+  provider,
+  children,
+}) => {
+  const [defaultProvider] = useState(createDefaultPaymentProvider);
+
+  return (
+    <PaymentContext.Provider value={provider ?? defaultProvider}>
+      {children}
+    </PaymentContext.Provider>
+  );
+};
+
+export const usePaymentProvider = (): PaymentProvider => {
+  const context = useContext(PaymentContext);
+  if (!context) {
+    throw new Error('usePaymentProvider must be used within a PaymentGatewayProvider');
+  }
+  return context;
+};
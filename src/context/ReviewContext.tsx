@@ -0,0 +1,38 @@
+import React, { createContext, useContext, useRef, useState, ReactNode } from 'react';
+import { createDefaultReviewService, type ReviewService } from '@/lib/reviews';
+import { useAuth } from './AuthContext';
+import { useOrderService } from './OrderContext';
+
+const ReviewContext = createContext<ReviewService | undefined>(undefined);
+
+export const ReviewProvider: React.FC<{ service?: ReviewService; children: ReactNode }> = ({
+  service,
+  children,
+}) => {
+  const { getAccessToken } = useAuth();
+  const getAccessTokenRef = useRef(getAccessToken);
+  getAccessTokenRef.current = getAccessToken;
+  const orderService = useOrderService();
+  const orderServiceRef = useRef(orderService);
+  orderServiceRef.current = orderService;
+
+  const [defaultService] = useState(() =>
+    createDefaultReviewService(() => getAccessTokenRef.current(), {
+      listByUser: userId => orderServiceRef.current.listByUser(userId),
+    })
+  );
+
+  return (
+    <ReviewContext.Provider value={service ?? defaultService}>
+      {children}
+    </ReviewContext.Provider>
+  );
+};
+
+export const useReviewService = (): ReviewService => {
+  const context = useContext(ReviewContext);
+  if (!context) {
+    throw new Error('useReviewService must be used within a ReviewProvider');
+  }
+  return context;
+};
@@ -0,0 +1,182 @@
+import React, { createContext, useContext, useEffect, useReducer, ReactNode } from 'react';
+import { useAuth } from './AuthContext';
+import { useCart } from './CartContext';
+import {
+  clearGuestWishlist,
+  getWishlistItemId,
+  loadWishlist,
+  mergeWishlists,
+  saveWishlist,
+} from '@/lib/wishlistStorage';
+
+export interface WishlistItem {
+  id: string;
+  productId: number;
+  name: string;
+  price: number;
+  image: string;
+  size: string;
+  color: string;
+  // Blank until a size and color are chosen.
+  sku: string;
+  maxQuantity?: number;
+  // Set when saved for later from the cart, so moving it back restores the same quantity.
+  quantity?: number;
+  addedAt: string;
+}
+
+export type WishlistItemInput = Omit<WishlistItem, 'id' | 'addedAt'>;
+
+interface WishlistState {
+  // The account the items belong to; null for guests.
+  ownerId: string | null;
+  items: WishlistItem[];
+}
+
+type WishlistAction =
+  | { type: 'LOAD'; payload: WishlistState }
+  | { type: 'ADD'; payload: WishlistItem }
+  | { type: 'REMOVE'; payload: string };
+
+interface WishlistContextType {
+  items: WishlistItem[];
+  isInWishlist: (itemId: string) => boolean;
+  addToWishlist: (item: WishlistItemInput) => void;
+  removeFromWishlist: (itemId: string) => void;
+  // Returns true when the item was added, false when it was removed.
+  toggleWishlist: (item: WishlistItemInput) => boolean;
+  // Returns false when the item still needs a size and color.
+  moveToCart: (itemId: string) => boolean;
+}
+
+const WishlistContext = createContext<WishlistContextType | undefined>(undefined);
+
+const wishlistReducer = (state: WishlistState, action: WishlistAction): WishlistState => {
+  switch (action.type) {
+    case 'LOAD':
+      return action.payload;
+
+    case 'ADD': {
+      const existing = state.items.find(item => item.id === action.payload.id);
+      if (!existing) {
+        return { ...state, items: [action.payload, ...state.items] };
+      }
+      if (action.payload.quantity === undefined) {
+        return state;
+      }
+      const maxQuantity = action.payload.maxQuantity ?? existing.maxQuantity;
+      const quantity = (existing.quantity ?? 0) + action.payload.quantity;
+      return {
+        ...state,
+        items: state.items.map(item =>
+          item === existing
+            ? { ...item, maxQuantity, quantity: maxQuantity === undefined ? quantity : Math.min(quantity, maxQuantity) }
+            : item
+        ),
+      };
+    }
+
+    case 'REMOVE':
+      return { ...state, items: state.items.filter(item => item.id !== action.payload) };
+
+    default:
+      return state;
+  }
+};
+
+export const WishlistProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+  const { currentUser } = useAuth();
+  const { addToCart } = useCart();
+  const [state, dispatch] = useReducer(wishlistReducer, undefined, () => ({
+    ownerId: null,
+    items: loadWishlist(null),
+  }));
+
+  const userId = currentUser?.id ?? null;
+
+  // Switch lists when the shopper signs in or out, folding guest saves into the account.
+  useEffect(() => {
+    if (userId === state.ownerId) return;
+
+    if (userId) {
+      const merged = mergeWishlists(loadWishlist(userId), loadWishlist(null));
+      clearGuestWishlist();
+      dispatch({ type: 'LOAD', payload: { ownerId: userId, items: merged } });
+    } else {
+      dispatch({ type: 'LOAD', payload: { ownerId: null, items: loadWishlist(null) } });
+    }
+  }, [userId, state.ownerId]);
+
+  useEffect(() => {
+    saveWishlist(state.ownerId, state.items);
+  }, [state]);
+
+  const isInWishlist = (itemId: string) => state.items.some(item => item.id === itemId);
+
+  const addToWishlist = (item: WishlistItemInput) => {
+    dispatch({
+      type: 'ADD',
+      payload: {
+        ...item,
+        id: getWishlistItemId(item.productId, item.size, item.color),
+        addedAt: new Date().toISOString(),
+      },
+    });
+  };
+
+  const removeFromWishlist = (itemId: string) => {
+    dispatch({ type: 'REMOVE', payload: itemId });
+  };
+
+  const toggleWishlist = (item: WishlistItemInput) => {
+    const itemId = getWishlistItemId(item.productId, item.size, item.color);
+    if (isInWishlist(itemId)) {
+      removeFromWishlist(itemId);
+      return false;
+    }
+    addToWishlist(item);
+    return true;
+  };
+
+  const moveToCart = (itemId: string) => {
+    const item = state.items.find(saved => saved.id === itemId);
+    if (!item || !item.sku) return false;
+
+    addToCart({
+      id: item.productId,
+      sku: item.sku,
+      name: item.name,
+      price: item.price,
+      image: item.image,
+      size: item.size,
+      color: item.color,
+      quantity: item.quantity ?? 1,
+      maxQuantity: item.maxQuantity,
+    });
+    removeFromWishlist(itemId);
+    return true;
+  };
+
+  return (
+    <WishlistContext.Provider
+      value={{
+        items: state.items,
+        isInWishlist,
+        addToWishlist,
+        removeFromWishlist,
+        toggleWishlist,
+        moveToCart,
+      }}
+    >
+      {children}
+    </WishlistContext.Provider>
+  );
+};
+
+export const useWishlist = (): WishlistContextType => {
+  const context = useContext(WishlistContext);
+  if (!context) {
+    throw new Error('useWishlist must be used within a WishlistProvider');
+  }
+  return context;
+};
@@ -0,0 +1,72 @@
+import { useMemo } from "react"
+import { useCart } from "@/context/CartContext"
+import { useProducts } from "@/hooks/use-products"
+import { evaluateCoupon, findCoupon, getCouponUsageCount, type CouponEvaluation } from "@/lib/coupons"
+import { priceCart, type TaxRegion } from "@/lib/pricing"
+import { getShippingQuotes } from "@/lib/shipping"
+
+// Used for products the catalog hasn't returned yet.
+const DEFAULT_ITEM_WEIGHT = 250
+
+// Category coupons are checked against the catalog, so codes aren't evaluated until it has loaded.
+export function useCouponEvaluator() {
+  const { cartItems } = useCart()
+  const { data: products = [], isPending } = useProducts()
+
+  const categories = useMemo(
+    () => new Map(products.map((product) => [product.id, product.category])),
+    [products]
+  )
+
+  const evaluate = (code: string): CouponEvaluation => {
+    const coupon = findCoupon(code)
+    return evaluateCoupon(coupon, cartItems, {
+      categories,
+      usageCount: coupon ? getCouponUsageCount(coupon.code) : 0,
+    })
+  }
+
+  return { evaluate, isPending }
+}
+
+interface CartPricingOptions {
+  // Shipping destination; also decides the tax rate. Shipping isn't quoted without it.
+  region?: TaxRegion
+  shippingMethodId?: string
+}
+
+export function useCartPricing({ region, shippingMethodId }: CartPricingOptions = {}) {
+  const { cartItems, couponCode } = useCart()
+  const { data: products = [] } = useProducts()
+  const { evaluate, isPending } = useCouponEvaluator()
+
+  const coupon = couponCode && !isPending ? evaluate(couponCode) : null
+  const discounts =
+    coupon?.status === "applied" && coupon.discount > 0
+      ? [{ label: `Promo (${coupon.coupon.code})`, amount: coupon.discount }]
+      : []
+  const freeShipping = coupon?.status === "applied" && coupon.freeShipping
+
+  const merchandise = priceCart(cartItems, { region, discounts })
+  const weightGrams = cartItems.reduce((total, item) => {
+    const weight = products.find((product) => product.id === item.id)?.weight ?? DEFAULT_ITEM_WEIGHT
+    return total + weight * item.quantity
+  }, 0)
+
+  const shippingQuotes = region
+    ? getShippingQuotes(region, {
+        weightGrams,
+        subtotal: merchandise.subtotal - merchandise.discountTotal,
+      })
+    : []
+  const shippingQuote = shippingQuotes.find((quote) => quote.methodId === shippingMethodId) ?? null
+
+  const pricing = priceCart(cartItems, {
+    region,
+    discounts,
+    shipping: shippingQuote?.cost ?? 0,
+    freeShipping,
+  })
+
+  return { pricing, coupon, shippingQuotes, shippingQuote, isPending }
+}
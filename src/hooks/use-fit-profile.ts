@@ -0,0 +1,14 @@
+import { useState } from "react"
+import { loadFitProfile, saveFitProfile, type FitProfile } from "@/lib/sizing"
+
+// The profile is kept on this device so every product page can recommend a size.
+export function useFitProfile() {
+  const [profile, setProfile] = useState<FitProfile | null>(loadFitProfile)
+
+  const updateProfile = (next: FitProfile | null) => {
+    setProfile(next)
+    saveFitProfile(next)
+  }
+
+  return { profile, updateProfile }
+}
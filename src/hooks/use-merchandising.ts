@@ -0,0 +1,39 @@
+import { useQuery } from "@tanstack/react-query"
+import { useMerchandisingSource } from "@/context/MerchandisingContext"
+import { useBestSellers } from "@/hooks/use-orders"
+import { useProducts } from "@/hooks/use-products"
+import { isCollectionActive, resolveCollection } from "@/lib/merchandising"
+
+// Enough ranked candidates to fill a collection after out-of-stock products are dropped.
+const BEST_SELLER_CANDIDATES = 24
+
+export const merchandisingKeys = {
+  collections: ["merchandising", "collections"] as const,
+}
+
+// Collections that are in their scheduled window and have at least one product to show.
+// Best sellers join in once their counts load; the other collections don't wait for them.
+export function useActiveCollections() {
+  const source = useMerchandisingSource()
+  const { data: products = [], isPending: productsPending } = useProducts()
+  const { data: collections = [], isPending: collectionsPending } = useQuery({
+    queryKey: merchandisingKeys.collections,
+    queryFn: () => source.listCollections(),
+    staleTime: 5 * 60_000,
+  })
+
+  const now = new Date()
+  const scheduled = collections.filter((collection) => isCollectionActive(collection, now))
+  const { data: bestSellers = [] } = useBestSellers(BEST_SELLER_CANDIDATES, {
+    enabled: scheduled.some((collection) => collection.rule.type === "best-sellers"),
+  })
+
+  const active = scheduled
+    .map((collection) => ({
+      collection,
+      products: resolveCollection(collection, products, { bestSellers, now }),
+    }))
+    .filter(({ products }) => products.length > 0)
+
+  return { collections: active, isPending: productsPending || collectionsPending }
+}
@@ -0,0 +1,64 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query"
+import { useOrderService } from "@/context/OrderContext"
+import type { CreateOrderInput } from "@/lib/orders"
+
+export const orderKeys = {
+  all: ["orders"] as const,
+  detail: (id: string) => [...orderKeys.all, "detail", id] as const,
+  byUser: (userId: string) => [...orderKeys.all, "user", userId] as const,
+  boughtTogether: (productIds: number[]) => [...orderKeys.all, "bought-together", productIds] as const,
+  bestSellers: (limit: number) => [...orderKeys.all, "best-sellers", limit] as const,
+}
+
+export function useOrder(id: string | undefined) {
+  const service = useOrderService()
+
+  return useQuery({
+    queryKey: orderKeys.detail(id ?? ""),
+    queryFn: () => service.getById(id),
+    enabled: !!id,
+  })
+}
+
+export function useBoughtTogetherCounts(productIds: number[]) {
+  const service = useOrderService()
+
+  return useQuery({
+    queryKey: orderKeys.boughtTogether(productIds),
+    queryFn: () => service.getBoughtTogether(productIds),
+    enabled: productIds.length > 0,
+  })
+}
+
+export function useBestSellers(limit: number, { enabled = true }: { enabled?: boolean } = {}) {
+  const service = useOrderService()
+
+  return useQuery({
+    queryKey: orderKeys.bestSellers(limit),
+    queryFn: () => service.getBestSellers(limit),
+    enabled,
+  })
+}
+
+export function useUserOrders(userId: string | undefined) {
+  const service = useOrderService()
+
+  return useQuery({
+    queryKey: orderKeys.byUser(userId ?? ""),
+    queryFn: () => service.listByUser(userId),
+    enabled: !!userId,
+  })
+}
+
+export function useCreateOrder() {
+  const service = useOrderService()
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (input: CreateOrderInput) => service.create(input),
+    onSuccess: (order) => {
+      queryClient.setQueryData(orderKeys.detail(order.id), order)
+      queryClient.invalidateQueries({ queryKey: orderKeys.all })
+    },
+  })
+}
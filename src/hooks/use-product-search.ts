@@ -0,0 +1,15 @@
+import { useMemo } from "react"
+import { useProducts } from "@/hooks/use-products"
+import { getSearchIndex } from "@/lib/search"
+
+// Suggestions are ranked client-side against the full catalog.
+export function useProductSearch(query: string, limit = 6) {
+  const { data: products, isPending } = useProducts()
+
+  const results = useMemo(
+    () => (products ? getSearchIndex(products).search(query, limit) : []),
+    [products, query, limit]
+  )
+
+  return { results, isPending }
+}
@@ -0,0 +1,75 @@
+import { keepPreviousData, useMutation, useQuery, useQueryClient } from "@tanstack/react-query"
+import { useProductRepository } from "@/context/CatalogContext"
+import type { ProductInput, ProductQuery } from "@/lib/catalog"
+
+export const productKeys = {
+  all: ["products"] as const,
+  list: (query: ProductQuery) => [...productKeys.all, "list", query] as const,
+  detail: (id: number) => [...productKeys.all, "detail", id] as const,
+  admin: () => [...productKeys.all, "admin"] as const,
+  adminDetail: (id: number) => [...productKeys.admin(), id] as const,
+}
+
+export function useProducts(query: ProductQuery = {}) {
+  const repository = useProductRepository()
+
+  return useQuery({
+    queryKey: productKeys.list(query),
+    queryFn: () => repository.list(query),
+    placeholderData: keepPreviousData,
+    retry: 2,
+  })
+}
+
+export function useProduct(id: number) {
+  const repository = useProductRepository()
+
+  return useQuery({
+    queryKey: productKeys.detail(id),
+    queryFn: () => repository.getById(id),
+    enabled: Number.isFinite(id),
+    retry: 2,
+  })
+}
+
+// Back office: includes archived products.
+export function useAdminProducts() {
+  const repository = useProductRepository()
+
+  return useQuery({
+    queryKey: productKeys.admin(),
+    queryFn: () => repository.listAll(),
+  })
+}
+
+export function useAdminProduct(id: number) {
+  const repository = useProductRepository()
+
+  return useQuery({
+    queryKey: productKeys.adminDetail(id),
+    queryFn: () => repository.getById(id, { includeArchived: true }),
+    enabled: Number.isFinite(id),
+  })
+}
+
+// Every catalog query is invalidated so the storefront shows edits straight away.
+export function useSaveProduct() {
+  const repository = useProductRepository()
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: ({ id, input }: { id?: number; input: ProductInput }) =>
+      id === undefined ? repository.create(input) : repository.update(id, input),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: productKeys.all }),
+  })
+}
+
+export function useSetProductArchived() {
+  const repository = useProductRepository()
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: ({ id, archived }: { id: number; archived: boolean }) => repository.setArchived(id, archived),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: productKeys.all }),
+  })
+}
@@ -0,0 +1,37 @@
+import { useCallback, useState } from "react"
+import { useBoughtTogetherCounts } from "@/hooks/use-orders"
+import { useProducts } from "@/hooks/use-products"
+import {
+  getBoughtTogether,
+  getSimilarProducts,
+  loadRecentlyViewed,
+  recordProductView,
+} from "@/lib/recommendations"
+import type { Product } from "@/utils/mockData"
+
+export function useRecentlyViewed(excludeIds: number[] = []) {
+  const { data: products = [] } = useProducts()
+  const [ids, setIds] = useState(loadRecentlyViewed)
+
+  const recordView = useCallback((productId: number) => {
+    setIds(recordProductView(productId))
+  }, [])
+
+  const viewed = ids
+    .filter((id) => !excludeIds.includes(id))
+    .map((id) => products.find((product) => product.id === id))
+    .filter((product): product is Product => !!product)
+
+  return { products: viewed, recordView }
+}
+
+export function useSimilarProducts(product: Product | null | undefined, limit?: number) {
+  const { data: products = [] } = useProducts()
+  return product ? getSimilarProducts(product, products, limit) : []
+}
+
+export function useBoughtTogether(productIds: number[], limit?: number) {
+  const { data: products = [] } = useProducts()
+  const { data: counts = [] } = useBoughtTogetherCounts(productIds)
+  return productIds.length > 0 ? getBoughtTogether(counts, products, limit) : []
+}
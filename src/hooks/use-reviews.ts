@@ -0,0 +1,54 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query"
+import { useReviewService } from "@/context/ReviewContext"
+import type { CreateReviewInput } from "@/lib/reviews"
+
+export const reviewKeys = {
+  all: ["reviews"] as const,
+  byProduct: (productId: number) => [...reviewKeys.all, "product", productId] as const,
+  summaries: () => [...reviewKeys.all, "summaries"] as const,
+}
+
+export function useProductReviews(productId: number) {
+  const service = useReviewService()
+
+  return useQuery({
+    queryKey: reviewKeys.byProduct(productId),
+    queryFn: () => service.listByProduct(productId),
+    enabled: Number.isFinite(productId),
+  })
+}
+
+export function useReviewSummaries() {
+  const service = useReviewService()
+
+  return useQuery({
+    queryKey: reviewKeys.summaries(),
+    queryFn: () => service.listSummaries(),
+    staleTime: 60_000,
+  })
+}
+
+export function useCreateReview() {
+  const service = useReviewService()
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (input: CreateReviewInput) => service.create(input),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: reviewKeys.all })
+    },
+  })
+}
+
+export function useMarkReviewHelpful() {
+  const service = useReviewService()
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: ({ reviewId, userId }: { reviewId: string; userId: string }) =>
+      service.markHelpful(reviewId, userId),
+    onSuccess: (review) => {
+      queryClient.invalidateQueries({ queryKey: reviewKeys.byProduct(review.productId) })
+    },
+  })
+}
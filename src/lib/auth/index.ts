@@ -0,0 +1,3 @@
+export * from './types';
+export { createMockAuthClient } from './mockAuthClient';
+export { clearSession, isSessionRemembered, loadSession, saveSession, subscribeToSession } from './sessionStore';
@@ -0,0 +1,127 @@
+import type { AuthClient, AuthSession, User } from './types';
+
+const USERS_KEY = 'threadx-mock-users';
+const REFRESH_TOKENS_KEY = 'threadx-mock-refresh-tokens';
+
+// Seeded on first use so the back office can be reached without a real identity provider.
+// Only in development or with VITE_SEED_DEMO_ADMIN=true; other builds never contain the credentials.
+const DEMO_ADMIN =
+  import.meta.env.DEV || import.meta.env.VITE_SEED_DEMO_ADMIN === 'true'
+    ? { email: 'admin@threadx.com', password: 'threadx-admin' }
+    : null;
+
+const ACCESS_TOKEN_TTL = 15 * 60 * 1000;
+const REFRESH_TOKEN_TTL = 30 * 24 * 60 * 60 * 1000;
+
+interface StoredUser extends User {
+  passwordHash: string;
+}
+
+interface StoredRefreshToken {
+  userId: string;
+  expiresAt: number;
+}
+
+const readJson = <T,>(key: string, fallback: T): T => {
+  try {
+    const raw = window.localStorage.getItem(key);
+    return raw ? (JSON.parse(raw) as T) : fallback;
+  } catch {
+    return fallback;
+  }
+};
+
+const writeJson = (key: string, value: unknown) => {
+  window.localStorage.setItem(key, JSON.stringify(value));
+};
+
+const hashPassword = async (password: string) => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(password));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+const toUser = ({ passwordHash, ...user }: StoredUser): User => ({ ...user, role: user.role ?? 'customer' });
+
+const ensureDemoAdmin = async () => {
+  if (!DEMO_ADMIN) return;
+  const users = readJson<StoredUser[]>(USERS_KEY, []);
+  if (users.some(u => u.email === DEMO_ADMIN.email)) return;
+  writeJson(USERS_KEY, [
+    ...users,
+    {
+      id: crypto.randomUUID(),
+      email: DEMO_ADMIN.email,
+      firstName: 'Store',
+      lastName: 'Admin',
+      role: 'admin',
+      passwordHash: await hashPassword(DEMO_ADMIN.password),
+    },
+  ]);
+};
+
+const issueSession = (user: StoredUser): AuthSession => {
+  const refreshToken = crypto.randomUUID();
+  const refreshTokens = readJson<Record<string, StoredRefreshToken>>(REFRESH_TOKENS_KEY, {});
+  refreshTokens[refreshToken] = { userId: user.id, expiresAt: Date.now() + REFRESH_TOKEN_TTL };
+  writeJson(REFRESH_TOKENS_KEY, refreshTokens);
+
+  return {
+    user: toUser(user),
+    accessToken: crypto.randomUUID(),
+    refreshToken,
+    expiresAt: Date.now() + ACCESS_TOKEN_TTL,
+  };
+};
+
+// Keeps accounts and refresh tokens in localStorage so the storefront can be
+// exercised end to end without an identity backend.
+export const createMockAuthClient = (): AuthClient => ({
+  login: async (email, password) => {
+    await ensureDemoAdmin();
+    const users = readJson<StoredUser[]>(USERS_KEY, []);
+    const user = users.find(u => u.email === email.trim().toLowerCase());
+    if (!user || user.passwordHash !== (await hashPassword(password))) {
+      throw new Error('Invalid email or password');
+    }
+    return issueSession(user);
+  },
+
+  register: async ({ firstName, lastName, email, password }) => {
+    await ensureDemoAdmin();
+    const users = readJson<StoredUser[]>(USERS_KEY, []);
+    const normalizedEmail = email.trim().toLowerCase();
+    if (users.some(u => u.email === normalizedEmail)) {
+      throw new Error('An account with this email already exists');
+    }
+
+    const user: StoredUser = {
+      id: crypto.randomUUID(),
+      email: normalizedEmail,
+      firstName: firstName.trim(),
+      lastName: lastName.trim(),
+      role: 'customer',
+      passwordHash: await hashPassword(password),
+    };
+    writeJson(USERS_KEY, [...users, user]);
+    return issueSession(user);
+  },
+
+  refresh: async (refreshToken) => {
+    const refreshTokens = readJson<Record<string, StoredRefreshToken>>(REFRESH_TOKENS_KEY, {});
+    const stored = refreshTokens[refreshToken];
+    delete refreshTokens[refreshToken];
+    writeJson(REFRESH_TOKENS_KEY, refreshTokens);
+
+    const user = stored && readJson<StoredUser[]>(USERS_KEY, []).find(u => u.id === stored.userId);
+    if (!stored || stored.expiresAt < Date.now() || !user) {
+      throw new Error('Session expired');
+    }
+    return issueSession(user);
+  },
+
+  logout: async (refreshToken) => {
+    const refreshTokens = readJson<Record<string, StoredRefreshToken>>(REFRESH_TOKENS_KEY, {});
+    delete refreshTokens[refreshToken];
+    writeJson(REFRESH_TOKENS_KEY, refreshTokens);
+  },
+});
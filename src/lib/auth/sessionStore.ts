@@ -0,0 +1,75 @@
+import type { AuthSession } from './types';
+
+const SESSION_KEY = 'threadx-session';
+
+// "Remember me" sessions live in localStorage; others end with the browser session.
+const storages = (): Storage[] => [window.localStorage, window.sessionStorage];
+
+const isSession = (value: unknown): value is AuthSession => {
+  if (!value || typeof value !== 'object') return false;
+  const session = value as Record<string, unknown>;
+  return (
+    typeof session.accessToken === 'string' &&
+    typeof session.refreshToken === 'string' &&
+    typeof session.expiresAt === 'number' &&
+    !!session.user &&
+    typeof session.user === 'object'
+  );
+};
+
+export const loadSession = (): AuthSession | null => {
+  for (const storage of storages()) {
+    try {
+      const raw = storage.getItem(SESSION_KEY);
+      if (!raw) continue;
+      const parsed: unknown = JSON.parse(raw);
+      if (isSession(parsed)) return parsed;
+    } catch {
+      // Ignore unreadable entries and fall through to the next storage.
+    }
+  }
+  return null;
+};
+
+export const saveSession = (session: AuthSession, remember: boolean) => {
+  const [target, other] = remember
+    ? [window.localStorage, window.sessionStorage]
+    : [window.sessionStorage, window.localStorage];
+  try {
+    other.removeItem(SESSION_KEY);
+    // Overwritten in place so other tabs never see the session briefly missing.
+    target.setItem(SESSION_KEY, JSON.stringify(session));
+  } catch {
+    // The session still works in memory for this page load.
+  }
+};
+
+export const isSessionRemembered = () => {
+  try {
+    return window.localStorage.getItem(SESSION_KEY) !== null;
+  } catch {
+    return false;
+  }
+};
+
+export const clearSession = () => {
+  for (const storage of storages()) {
+    try {
+      storage.removeItem(SESSION_KEY);
+    } catch {
+      // Nothing to clear.
+    }
+  }
+};
+
+// Other tabs rotate the shared refresh token or sign out through localStorage;
+// the listener gets whatever session is stored after each change.
+export const subscribeToSession = (listener: (session: AuthSession | null) => void) => {
+  const onStorage = (event: StorageEvent) => {
+    if (event.storageArea !== window.localStorage) return;
+    if (event.key !== null && event.key !== SESSION_KEY) return;
+    listener(loadSession());
+  };
+  window.addEventListener('storage', onStorage);
+  return () => window.removeEventListener('storage', onStorage);
+};
@@ -0,0 +1,32 @@
+export type UserRole = 'customer' | 'admin';
+
+export interface User {
+  id: string;
+  email: string;
+  firstName: string;
+  lastName: string;
+  // Sessions saved before roles existed have none; treat them as customers.
+  role?: UserRole;
+}
+
+export interface AuthSession {
+  user: User;
+  accessToken: string;
+  refreshToken: string;
+  // Epoch milliseconds after which `accessToken` must be refreshed.
+  expiresAt: number;
+}
+
+export interface RegisterInput {
+  firstName: string;
+  lastName: string;
+  email: string;
+  password: string;
+}
+
+export interface AuthClient {
+  login: (email: string, password: string) => Promise<AuthSession>;
+  register: (input: RegisterInput) => Promise<AuthSession>;
+  refresh: (refreshToken: string) => Promise<AuthSession>;
+  logout: (refreshToken: string) => Promise<void>;
+}
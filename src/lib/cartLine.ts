@@ -0,0 +1,4 @@
+// A cart line is one product in one size and color. Its id is derived from
+// those three values so the same combination always lands on the same line.
+export const getCartLineId = (productId: number, size: string, color: string) =>
+  `${productId}:${size}:${color}`;
@@ -0,0 +1,122 @@
+import type { CartItem, CartState } from '@/context/CartContext';
+import { getCartLineId } from '@/lib/cartLine';
+
+const STORAGE_KEY = 'threadx-cart';
+const CHANNEL_NAME = 'threadx-cart';
+
+export const CART_STORAGE_VERSION = 4;
+
+const EMPTY_CART: CartState = { cartItems: [], couponCode: null };
+
+interface PersistedCart {
+  version: number;
+  cartItems: CartItem[];
+  couponCode?: string | null;
+}
+
+// Each migration upgrades a saved payload from version `n` to `n + 1`.
+const migrations: Record<number, (data: unknown) => PersistedCart> = {
+  // v0: the bare `cartItems` array, saved before the payload was versioned.
+  0: (data) => ({
+    version: 1,
+    cartItems: Array.isArray(data) ? (data as CartItem[]) : [],
+  }),
+  // v1: lines were addressed by array index and had no `lineId`. Duplicate
+  // product/size/color lines are merged into one.
+  1: (data) => {
+    const lines = new Map<string, CartItem>();
+    for (const item of (data as PersistedCart).cartItems ?? []) {
+      const lineId = getCartLineId(item.id, item.size, item.color);
+      const existing = lines.get(lineId);
+      lines.set(
+        lineId,
+        existing
+          ? { ...existing, quantity: existing.quantity + item.quantity }
+          : { ...item, lineId }
+      );
+    }
+    return { version: 2, cartItems: Array.from(lines.values()) };
+  },
+  // v2: lines predate product variants, so their SKU is unknown.
+  2: (data) => ({
+    version: 3,
+    cartItems: ((data as PersistedCart).cartItems ?? []).map(item => ({ ...item, sku: item.sku ?? '' })),
+  }),
+  // v3: carts could not hold a promo code yet.
+  3: (data) => ({
+    version: 4,
+    cartItems: (data as PersistedCart).cartItems ?? [],
+    couponCode: null,
+  }),
+};
+
+const isCartItem = (value: unknown): value is CartItem => {
+  if (!value || typeof value !== 'object') return false;
+  const item = value as Record<string, unknown>;
+  return (
+    typeof item.lineId === 'string' &&
+    typeof item.id === 'number' &&
+    typeof item.sku === 'string' &&
+    typeof item.name === 'string' &&
+    typeof item.price === 'number' &&
+    typeof item.size === 'string' &&
+    typeof item.color === 'string' &&
+    typeof item.quantity === 'number' &&
+    item.quantity > 0
+  );
+};
+
+const migrate = (raw: unknown): PersistedCart | null => {
+  let data: unknown = raw;
+  let version =
+    raw && typeof raw === 'object' && !Array.isArray(raw) && typeof (raw as PersistedCart).version === 'number'
+      ? (raw as PersistedCart).version
+      : 0;
+
+  while (version < CART_STORAGE_VERSION) {
+    const upgrade = migrations[version];
+    if (!upgrade) return null;
+    data = upgrade(data);
+    version = (data as PersistedCart).version;
+  }
+
+  if (version !== CART_STORAGE_VERSION) return null;
+  return data as PersistedCart;
+};
+
+export const loadCartState = (): CartState => {
+  try {
+    const raw = window.localStorage.getItem(STORAGE_KEY);
+    if (!raw) return { ...EMPTY_CART };
+
+    const persisted = migrate(JSON.parse(raw));
+    if (!persisted) return { ...EMPTY_CART };
+
+    return {
+      cartItems: persisted.cartItems.filter(isCartItem),
+      couponCode: typeof persisted.couponCode === 'string' ? persisted.couponCode : null,
+    };
+  } catch {
+    return { ...EMPTY_CART };
+  }
+};
+
+export const saveCartState = (state: CartState) => {
+  try {
+    const payload: PersistedCart = {
+      version: CART_STORAGE_VERSION,
+      cartItems: state.cartItems,
+      couponCode: state.couponCode,
+    };
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(payload));
+  } catch {
+    // Storage can be full or disabled (e.g. private browsing); the cart still works in memory.
+  }
+};
+
+export const createCartChannel = (): BroadcastChannel | null => {
+  if (typeof window === 'undefined' || typeof window.BroadcastChannel === 'undefined') {
+    return null;
+  }
+  return new BroadcastChannel(CHANNEL_NAME);
+};
@@ -0,0 +1,68 @@
+import type { Product } from '@/utils/mockData';
+import { getSearchIndex } from '@/lib/search';
+import { getProductColorFamilies } from './colorFamilies';
+import { getPriceRange } from './variants';
+import type { ProductFilterKey, ProductQuery } from './types';
+
+const includesIgnoringCase = (values: string[], value: string) =>
+  values.some(candidate => candidate.toLowerCase() === value.toLowerCase());
+
+// Values within one filter are OR-ed; the filters themselves are AND-ed.
+// `ignore` leaves one filter out, which is how facet counts are worked out.
+export const matchesProductFilters = (product: Product, query: ProductQuery, ignore?: ProductFilterKey) => {
+  if (ignore !== 'categories' && query.categories?.length) {
+    if (!includesIgnoringCase(query.categories, product.category)) return false;
+  }
+
+  if (ignore !== 'sizes' && query.sizes?.length) {
+    if (!product.sizes.some(size => query.sizes.includes(size))) return false;
+  }
+
+  if (ignore !== 'colors' && query.colors?.length) {
+    const families = getProductColorFamilies(product.colors);
+    if (!query.colors.some(color => families.includes(color.toLowerCase()))) return false;
+  }
+
+  if (ignore !== 'priceRange' && query.priceRange) {
+    const [min, max] = query.priceRange;
+    const [lowest, highest] = getPriceRange(product);
+    if (highest < min || lowest > max) return false;
+  }
+
+  return true;
+};
+
+// Search results come back ranked, which is the order kept for 'relevance'.
+export const searchProducts = (products: Product[], q?: string) =>
+  q?.trim() ? getSearchIndex(products).search(q).map(hit => hit.product) : products;
+
+// `ratings` maps product id to average star rating and is only needed for the 'rating' sort.
+export const applyProductQuery = (
+  products: Product[],
+  query: ProductQuery = {},
+  ratings: Record<number, number> = {}
+): Product[] => {
+  const result = searchProducts(products, query.q).filter(product => matchesProductFilters(product, query));
+
+  const sorted = [...result];
+  // Price sorts follow the variant prices shown on the cards: cheapest from-price
+  // first, or most expensive to-price first.
+  switch (query.sort) {
+    case 'price-low':
+      sorted.sort((a, b) => getPriceRange(a)[0] - getPriceRange(b)[0]);
+      break;
+    case 'price-high':
+      sorted.sort((a, b) => getPriceRange(b)[1] - getPriceRange(a)[1]);
+      break;
+    case 'name':
+      sorted.sort((a, b) => a.name.localeCompare(b.name));
+      break;
+    case 'rating':
+      sorted.sort((a, b) => (ratings[b.id] ?? 0) - (ratings[a.id] ?? 0) || a.name.localeCompare(b.name));
+      break;
+    default:
+      break;
+  }
+
+  return sorted;
+};
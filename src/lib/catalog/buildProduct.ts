@@ -0,0 +1,35 @@
+import { getSizeRank } from '@/lib/sizes';
+import type { Product } from '@/utils/mockData';
+import { getVariantSku } from './variants';
+import type { ProductInput } from './types';
+
+// Turns back-office input into a catalog product. Variants that already existed keep their SKU.
+export const buildProduct = (input: ProductInput, id: number, existing?: Product, now: Date = new Date()): Product => {
+  const sizes = Array.from(new Set(input.variants.map(variant => variant.size)))
+    .sort((a, b) => getSizeRank(a) - getSizeRank(b));
+  const colors = Array.from(new Set(input.variants.map(variant => variant.color)));
+
+  return {
+    id,
+    name: input.name,
+    description: input.description,
+    category: input.category,
+    price: input.price,
+    weight: input.weight,
+    image: input.images[0]?.url ?? existing?.image ?? '',
+    images: input.images,
+    sizes,
+    colors,
+    variants: input.variants.map(({ size, color, stock, price }) => ({
+      sku:
+        existing?.variants.find(variant => variant.size === size && variant.color === color)?.sku ??
+        getVariantSku(id, size, color),
+      size,
+      color,
+      stock,
+      ...(price !== undefined ? { price } : {}),
+    })),
+    createdAt: existing?.createdAt ?? now.toISOString(),
+    archived: existing?.archived ?? false,
+  };
+};
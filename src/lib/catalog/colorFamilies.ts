@@ -0,0 +1,43 @@
+// Shade names that don't end in their family's name.
+const COLOR_ALIASES: Record<string, string> = {
+  navy: 'blue',
+  indigo: 'blue',
+  charcoal: 'gray',
+  grey: 'gray',
+  silver: 'gray',
+  cream: 'beige',
+  khaki: 'beige',
+  tan: 'beige',
+  ivory: 'white',
+  burgundy: 'red',
+  maroon: 'red',
+  olive: 'green',
+};
+
+// Swatches for the filter panel; unknown families fall back to a neutral gray.
+export const COLOR_FAMILY_SWATCHES: Record<string, string> = {
+  white: '#ffffff',
+  black: '#111827',
+  blue: '#2563eb',
+  gray: '#6b7280',
+  red: '#dc2626',
+  green: '#16a34a',
+  beige: '#d6c7a1',
+};
+
+const toFamily = (shade: string) => {
+  const name = shade.trim().toLowerCase();
+  if (COLOR_ALIASES[name]) return COLOR_ALIASES[name];
+  // "Light Blue" and "Dark Green" belong to the family named by their last word.
+  const lastWord = name.split(/\s+/).pop() ?? name;
+  return COLOR_ALIASES[lastWord] ?? lastWord;
+};
+
+// "Blue/White" is both blue and white.
+export const getColorFamilies = (color: string): string[] =>
+  Array.from(new Set(color.split('/').filter(part => part.trim()).map(toFamily)));
+
+export const getProductColorFamilies = (colors: string[]): string[] =>
+  Array.from(new Set(colors.flatMap(getColorFamilies)));
+
+export const formatColorFamily = (family: string) => family.charAt(0).toUpperCase() + family.slice(1);
@@ -0,0 +1,83 @@
+import { getSizeRank } from '@/lib/sizes';
+import type { Product } from '@/utils/mockData';
+import { matchesProductFilters, searchProducts } from './applyProductQuery';
+import { formatColorFamily, getProductColorFamilies } from './colorFamilies';
+import { getPriceRange } from './variants';
+import type { ProductFilterKey, ProductQuery } from './types';
+
+export interface FacetValue {
+  value: string;
+  label: string;
+  // Products that would match if this value were added, given the other filters.
+  count: number;
+  selected: boolean;
+}
+
+export interface ProductFacets {
+  categories: FacetValue[];
+  sizes: FacetValue[];
+  colors: FacetValue[];
+  // Whole-dollar bounds covering every product in the catalog.
+  priceBounds: [number, number];
+}
+
+const buildFacet = (
+  catalog: Product[],
+  candidates: Product[],
+  query: ProductQuery,
+  key: Exclude<ProductFilterKey, 'priceRange'>,
+  valuesOf: (product: Product) => string[],
+  labelOf: (value: string) => string = value => value
+): FacetValue[] => {
+  const selected = new Set((query[key] ?? []).map(value => value.toLowerCase()));
+  // Counting ignores this facet's own selection so picking a value never zeroes its siblings.
+  const matching = candidates.filter(product => matchesProductFilters(product, query, key));
+
+  const counts = new Map<string, number>();
+  for (const product of catalog) {
+    for (const value of valuesOf(product)) {
+      if (!counts.has(value)) counts.set(value, 0);
+    }
+  }
+  for (const product of matching) {
+    for (const value of new Set(valuesOf(product))) {
+      counts.set(value, (counts.get(value) ?? 0) + 1);
+    }
+  }
+
+  return Array.from(counts, ([value, count]) => ({
+    value,
+    label: labelOf(value),
+    count,
+    selected: selected.has(value.toLowerCase()),
+  }));
+};
+
+export const getPriceBounds = (products: Product[]): [number, number] => {
+  if (products.length === 0) return [0, 0];
+  const ranges = products.map(getPriceRange);
+  return [
+    Math.floor(Math.min(...ranges.map(([min]) => min))),
+    Math.ceil(Math.max(...ranges.map(([, max]) => max))),
+  ];
+};
+
+export const getProductFacets = (catalog: Product[], query: ProductQuery): ProductFacets => {
+  const candidates = searchProducts(catalog, query.q);
+
+  return {
+    categories: buildFacet(catalog, candidates, query, 'categories', product => [product.category])
+      .sort((a, b) => a.label.localeCompare(b.label)),
+    sizes: buildFacet(catalog, candidates, query, 'sizes', product => product.sizes)
+      .sort((a, b) => getSizeRank(a.value) - getSizeRank(b.value) || a.value.localeCompare(b.value)),
+    colors: buildFacet(
+      catalog,
+      candidates,
+      query,
+      'colors',
+      product => getProductColorFamilies(product.colors),
+      formatColorFamily
+    ).sort((a, b) => a.label.localeCompare(b.label)),
+    priceBounds: getPriceBounds(catalog),
+  };
+};
@@ -0,0 +1,75 @@
+import type { Product } from '@/utils/mockData';
+import type { ProductInput, ProductQuery, ProductRepository } from './types';
+
+const toSearchParams = (query: ProductQuery = {}) => {
+  const params = new URLSearchParams();
+  if (query.q) params.set('q', query.q);
+  if (query.categories?.length) params.set('category', query.categories.join(','));
+  if (query.sizes?.length) params.set('size', query.sizes.join(','));
+  if (query.colors?.length) params.set('color', query.colors.join(','));
+  if (query.priceRange) {
+    params.set('minPrice', String(query.priceRange[0]));
+    if (Number.isFinite(query.priceRange[1])) params.set('maxPrice', String(query.priceRange[1]));
+  }
+  if (query.sort) params.set('sort', query.sort);
+  return params;
+};
+
+export const createHttpProductRepository = (
+  baseUrl: string,
+  getAccessToken: () => Promise<string | null>
+): ProductRepository => {
+  const root = baseUrl.replace(/\/+$/, '');
+
+  const request = async (path: string, init: RequestInit = {}) => {
+    const token = await getAccessToken();
+    return fetch(`${root}${path}`, {
+      ...init,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(token ? { Authorization: `Bearer ${token}` } : {}),
+        ...init.headers,
+      },
+    });
+  };
+
+  const save = async (path: string, method: string, body: ProductInput | { archived: boolean }) => {
+    const response = await request(path, { method, body: JSON.stringify(body) });
+    if (!response.ok) {
+      throw new Error(`Failed to save product (${response.status})`);
+    }
+    return (await response.json()) as Product;
+  };
+
+  return {
+    list: async (query) => {
+      const params = toSearchParams(query).toString();
+      const response = await request(`/products${params ? `?${params}` : ''}`);
+      if (!response.ok) {
+        throw new Error(`Failed to load products (${response.status})`);
+      }
+      return (await response.json()) as Product[];
+    },
+
+    getById: async (id, options) => {
+      const response = await request(`/products/${id}${options?.includeArchived ? '?includeArchived=true' : ''}`);
+      if (response.status === 404) return null;
+      if (!response.ok) {
+        throw new Error(`Failed to load product ${id} (${response.status})`);
+      }
+      return (await response.json()) as Product;
+    },
+
+    listAll: async () => {
+      const response = await request('/admin/products');
+      if (!response.ok) {
+        throw new Error(`Failed to load products (${response.status})`);
+      }
+      return (await response.json()) as Product[];
+    },
+
+    create: (input) => save('/admin/products', 'POST', input),
+    update: (id, input) => save(`/admin/products/${id}`, 'PUT', input),
+    setArchived: (id, archived) => save(`/admin/products/${id}`, 'PATCH', { archived }),
+  };
+};
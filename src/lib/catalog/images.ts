@@ -0,0 +1,22 @@
+import type { Product, ProductImage } from '@/utils/mockData';
+
+// Images for `color` lead, followed by those shared by every color. When no
+// color is chosen, or the chosen one has no photos, the first photographed
+// color leads instead.
+export const getProductImages = (product: Product, color?: string): ProductImage[] => {
+  const images = product.images ?? [];
+  if (images.length === 0) {
+    return [{ url: product.image, alt: product.name }];
+  }
+
+  const shared = images.filter(image => !image.color);
+  const forColor = color ? images.filter(image => image.color === color) : [];
+  const defaultColor = images.find(image => image.color)?.color;
+  const lead = forColor.length > 0 ? forColor : images.filter(image => image.color && image.color === defaultColor);
+
+  return [...lead, ...shared];
+};
+
+// The thumbnail for a line in the cart or wishlist: the color's first photo, else the product's.
+export const getColorImage = (product: Product, color?: string) =>
+  (color && product.images?.find(image => image.color === color)?.url) || product.image;
@@ -0,0 +1,41 @@
+import type { Product } from '@/utils/mockData';
+import { applyProductQuery } from './applyProductQuery';
+import { buildProduct } from './buildProduct';
+import type { ProductRepository } from './types';
+
+// `onChange` receives the full catalog after every create, update or archive.
+export const createInMemoryProductRepository = (
+  seed: Product[],
+  onChange?: (products: Product[]) => void
+): ProductRepository => {
+  // Replaced rather than mutated, so caches keyed on the array (e.g. the search index) stay correct.
+  let products = [...seed];
+
+  const findOrThrow = (id: number) => {
+    const product = products.find(candidate => candidate.id === id);
+    if (!product) throw new Error(`Product ${id} not found`);
+    return product;
+  };
+
+  const replace = (next: Product) => {
+    products = products.some(product => product.id === next.id)
+      ? products.map(product => (product.id === next.id ? next : product))
+      : [...products, next];
+    onChange?.(products);
+    return next;
+  };
+
+  return {
+    list: async (query) => applyProductQuery(products.filter(product => !product.archived), query),
+    getById: async (id, options) =>
+      products.find(product => product.id === id && (options?.includeArchived || !product.archived)) ?? null,
+
+    listAll: async () => products,
+    create: async (input) => {
+      const id = products.reduce((max, product) => Math.max(max, product.id), 0) + 1;
+      return replace(buildProduct(input, id));
+    },
+    update: async (id, input) => replace(buildProduct(input, id, findOrThrow(id))),
+    setArchived: async (id, archived) => replace({ ...findOrThrow(id), archived }),
+  };
+};
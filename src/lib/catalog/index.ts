@@ -0,0 +1,22 @@
+import { createHttpProductRepository } from './httpProductRepository';
+import { createInMemoryProductRepository } from './inMemoryProductRepository';
+import { createLocalProductRepository } from './localProductRepository';
+import type { ProductRepository } from './types';
+
+export * from './types';
+export { buildProduct } from './buildProduct';
+export { applyProductQuery, matchesProductFilters, searchProducts } from './applyProductQuery';
+export * from './colorFamilies';
+export * from './facets';
+export { getColorImage, getProductImages } from './images';
+export * from './listing';
+export * from './schema';
+export * from './variants';
+export { createHttpProductRepository, createInMemoryProductRepository, createLocalProductRepository };
+
+// Set VITE_CATALOG_API_URL to talk to a REST backend; otherwise the mock catalog is served locally
+// and back-office edits are kept in localStorage.
+export const createDefaultProductRepository = (getAccessToken: () => Promise<string | null>): ProductRepository => {
+  const apiUrl = import.meta.env.VITE_CATALOG_API_URL;
+  return apiUrl ? createHttpProductRepository(apiUrl, getAccessToken) : createLocalProductRepository();
+};
@@ -0,0 +1,165 @@
+import { describe, expect, it } from 'vitest';
+import type { Product } from '@/utils/mockData';
+import { deriveProductListing, parseListingParams, ProductListingState, toListingParams } from './listing';
+
+const product = (id: number, overrides: Partial<Product> = {}): Product => {
+  const sizes = overrides.sizes ?? ['M'];
+  const colors = overrides.colors ?? ['Black'];
+  return {
+    id,
+    name: `Product ${id}`,
+    price: 20,
+    image: '',
+    images: [],
+    category: 'T-Shirts',
+    description: '',
+    weight: 200,
+    createdAt: '2025-01-01T00:00:00.000Z',
+    sizes,
+    colors,
+    variants: sizes.flatMap(size => colors.map(color => ({ sku: `${id}-${size}-${color}`, size, color, stock: 5 }))),
+    ...overrides,
+  };
+};
+
+const listingState = (overrides: Partial<ProductListingState> = {}): ProductListingState => ({
+  sort: 'name',
+  page: 1,
+  ...overrides,
+});
+
+describe('listing URL params', () => {
+  it('round-trips a fully specified listing', () => {
+    const state = listingState({
+      q: 'linen',
+      categories: ['Shirts', 'Jackets'],
+      sizes: ['S', 'XL'],
+      colors: ['blue', 'white'],
+      priceRange: [25, 80],
+      sort: 'price-high',
+      page: 3,
+    });
+
+    const params = toListingParams(state);
+    expect(params.toString()).toBe(
+      'q=linen&category=Shirts%2CJackets&size=S%2CXL&color=blue%2Cwhite&minPrice=25&maxPrice=80&sort=price-high&page=3'
+    );
+    expect(parseListingParams(params)).toEqual(state);
+  });
+
+  it('round-trips an open-ended price range', () => {
+    const state = listingState({ priceRange: [40, Infinity] });
+
+    const params = toListingParams(state);
+    expect(params.toString()).toBe('minPrice=40');
+    expect(parseListingParams(params).priceRange).toEqual([40, Infinity]);
+  });
+
+  it('leaves defaults out of the URL', () => {
+    expect(toListingParams(listingState()).toString()).toBe('');
+    expect(toListingParams(listingState({ q: 'tee', sort: 'relevance' })).toString()).toBe('q=tee');
+  });
+
+  it('falls back to the default sort for unknown values', () => {
+    expect(parseListingParams(new URLSearchParams('sort=cheapest')).sort).toBe('name');
+    expect(parseListingParams(new URLSearchParams('sort=relevance')).sort).toBe('name');
+    expect(parseListingParams(new URLSearchParams('q=tee&sort=cheapest')).sort).toBe('relevance');
+  });
+
+  it('lowercases colors and ignores empty list entries', () => {
+    const state = parseListingParams(new URLSearchParams('color=Blue,,White&size=,'));
+    expect(state.colors).toEqual(['blue', 'white']);
+    expect(state.sizes).toBeUndefined();
+  });
+
+  it.each(['0', '-2', 'abc', '2.7'])('parses page=%s to a whole page of at least 1', page => {
+    const parsed = parseListingParams(new URLSearchParams({ page })).page;
+    expect(Number.isInteger(parsed)).toBe(true);
+    expect(parsed).toBeGreaterThanOrEqual(1);
+  });
+});
+
+describe('deriveProductListing', () => {
+  const catalog = [
+    product(1, { name: 'Navy Oxford', category: 'Shirts', sizes: ['M', 'L'], colors: ['Navy'], price: 45 }),
+    product(2, { name: 'White Oxford', category: 'Shirts', sizes: ['S'], colors: ['White'], price: 45 }),
+    product(3, { name: 'Denim Jacket', category: 'Jackets', sizes: ['L'], colors: ['Light Blue'], price: 90 }),
+    product(4, { name: 'Black Tee', category: 'T-Shirts', sizes: ['M', 'L'], colors: ['Black'], price: 20 }),
+    product(5, { name: 'Blue Tee', category: 'T-Shirts', sizes: ['L'], colors: ['Blue/White'], price: 22 }),
+  ];
+
+  it('AND-s filters together and OR-s values within a filter', () => {
+    const listing = deriveProductListing(
+      catalog,
+      listingState({ categories: ['shirts', 'T-Shirts'], sizes: ['L'], colors: ['blue'], priceRange: [0, 50] })
+    );
+
+    expect(listing.items.map(item => item.id)).toEqual([5, 1]);
+    expect(listing.total).toBe(2);
+  });
+
+  it('counts facets as if each filter were left out', () => {
+    const { facets } = deriveProductListing(catalog, listingState({ categories: ['Shirts'], sizes: ['L'] }));
+
+    const count = (values: { value: string; count: number }[], value: string) =>
+      values.find(facet => facet.value === value)?.count;
+    expect(count(facets.categories, 'Jackets')).toBe(1);
+    expect(count(facets.categories, 'T-Shirts')).toBe(2);
+    expect(count(facets.sizes, 'S')).toBe(1);
+  });
+
+  it('sorts by variant prices rather than the base price', () => {
+    const priced = [
+      product(1, { name: 'Base only', price: 30 }),
+      product(2, {
+        name: 'Cheap variant',
+        price: 40,
+        variants: [
+          { sku: '2-S', size: 'S', color: 'Black', stock: 5, price: 15 },
+          { sku: '2-M', size: 'M', color: 'Black', stock: 5 },
+        ],
+      }),
+      product(3, {
+        name: 'Premium variant',
+        price: 20,
+        variants: [
+          { sku: '3-S', size: 'S', color: 'Black', stock: 5 },
+          { sku: '3-XL', size: 'XL', color: 'Black', stock: 5, price: 55 },
+        ],
+      }),
+    ];
+    const ids = (sort: ProductListingState['sort']) =>
+      deriveProductListing(priced, listingState({ sort })).items.map(item => item.id);
+
+    expect(ids('price-low')).toEqual([2, 3, 1]);
+    expect(ids('price-high')).toEqual([3, 2, 1]);
+  });
+
+  it('pages through the results', () => {
+    const listing = deriveProductListing(catalog, listingState({ page: 2 }), { pageSize: 2 });
+
+    expect(listing.items.map(item => item.name)).toEqual(['Denim Jacket', 'Navy Oxford']);
+    expect(listing.pageCount).toBe(3);
+    expect(listing.page).toBe(2);
+  });
+
+  it('clamps a page past the end to the last page', () => {
+    const listing = deriveProductListing(catalog, listingState({ page: 99 }), { pageSize: 2 });
+
+    expect(listing.page).toBe(3);
+    expect(listing.items.map(item => item.name)).toEqual(['White Oxford']);
+  });
+
+  it('clamps a page below 1 to the first page', () => {
+    const listing = deriveProductListing(catalog, listingState({ page: -4 }), { pageSize: 2 });
+
+    expect(listing.page).toBe(1);
+    expect(listing.items.map(item => item.name)).toEqual(['Black Tee', 'Blue Tee']);
+  });
+
+  it('returns a single empty page when nothing matches', () => {
+    const listing = deriveProductListing(catalog, listingState({ categories: ['Hats'], page: 4 }));
+
+    expect(listing).toMatchObject({ items: [], total: 0, page: 1, pageCount: 1 });
+  });
+});
@@ -0,0 +1,100 @@
+import type { Product } from '@/utils/mockData';
+import { applyProductQuery } from './applyProductQuery';
+import { getProductFacets, type ProductFacets } from './facets';
+import type { ProductQuery, ProductSort } from './types';
+
+export const PRODUCTS_PER_PAGE = 9;
+
+const SORTS: ProductSort[] = ['relevance', 'name', 'price-low', 'price-high', 'rating'];
+
+export type ProductFilters = Pick<ProductQuery, 'categories' | 'sizes' | 'colors' | 'priceRange'>;
+
+// Everything the product listing shows, as encoded in the URL.
+export interface ProductListingState extends ProductQuery {
+  sort: ProductSort;
+  page: number;
+}
+
+export interface ProductListing {
+  items: Product[];
+  total: number;
+  page: number;
+  pageCount: number;
+  facets: ProductFacets;
+}
+
+// Searches rank by relevance; browsing sorts by name.
+export const getDefaultSort = (q?: string): ProductSort => (q ? 'relevance' : 'name');
+
+// Multi-select filters are comma separated: `?color=blue,white`.
+const parseList = (value: string | null) => {
+  const values = (value ?? '').split(',').map(part => part.trim()).filter(Boolean);
+  return values.length > 0 ? values : undefined;
+};
+
+const parseNumber = (value: string | null) => {
+  if (value === null || value.trim() === '') return undefined;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : undefined;
+};
+
+export const parseListingParams = (params: URLSearchParams): ProductListingState => {
+  const q = params.get('q')?.trim() || undefined;
+  const sortParam = params.get('sort') as ProductSort | null;
+  const sort = SORTS.includes(sortParam) && (q || sortParam !== 'relevance') ? sortParam : getDefaultSort(q);
+
+  const minPrice = parseNumber(params.get('minPrice'));
+  const maxPrice = parseNumber(params.get('maxPrice'));
+  // An open-ended range is stored as 0 or Infinity on the missing side.
+  const priceRange: [number, number] | undefined =
+    minPrice === undefined && maxPrice === undefined
+      ? undefined
+      : [minPrice ?? 0, maxPrice ?? Infinity];
+
+  return {
+    q,
+    categories: parseList(params.get('category')),
+    sizes: parseList(params.get('size')),
+    colors: parseList(params.get('color'))?.map(color => color.toLowerCase()),
+    priceRange,
+    sort,
+    page: Math.max(1, Math.floor(parseNumber(params.get('page')) ?? 1)),
+  };
+};
+
+// Defaults are left out so a plain listing keeps a clean URL.
+export const toListingParams = (state: ProductListingState): URLSearchParams => {
+  const params = new URLSearchParams();
+  if (state.q) params.set('q', state.q);
+  if (state.categories?.length) params.set('category', state.categories.join(','));
+  if (state.sizes?.length) params.set('size', state.sizes.join(','));
+  if (state.colors?.length) params.set('color', state.colors.join(','));
+  if (state.priceRange) {
+    const [min, max] = state.priceRange;
+    if (min > 0) params.set('minPrice', String(min));
+    if (Number.isFinite(max)) params.set('maxPrice', String(max));
+  }
+  if (state.sort !== getDefaultSort(state.q)) params.set('sort', state.sort);
+  if (state.page > 1) params.set('page', String(state.page));
+  return params;
+};
+
+// Filters, sorts and pages the catalog in one pass, alongside the facet counts
+// for the same query. A page past the end is clamped to the last page.
+export const deriveProductListing = (
+  products: Product[],
+  { page, ...query }: ProductListingState,
+  { pageSize = PRODUCTS_PER_PAGE, ratings = {} }: { pageSize?: number; ratings?: Record<number, number> } = {}
+): ProductListing => {
+  const matching = applyProductQuery(products, query, ratings);
+  const pageCount = Math.max(1, Math.ceil(matching.length / pageSize));
+  const currentPage = Math.min(Math.max(1, page), pageCount);
+
+  return {
+    items: matching.slice((currentPage - 1) * pageSize, currentPage * pageSize),
+    total: matching.length,
+    page: currentPage,
+    pageCount,
+    facets: getProductFacets(products, query),
+  };
+};
@@ -0,0 +1,27 @@
+import { mockProducts, type Product } from '@/utils/mockData';
+import { createInMemoryProductRepository } from './inMemoryProductRepository';
+
+const STORAGE_KEY = 'threadx-catalog';
+
+// Only written once the catalog is edited, so untouched browsers keep picking up the bundled products.
+const loadStoredCatalog = (): Product[] | null => {
+  try {
+    const raw = window.localStorage.getItem(STORAGE_KEY);
+    if (!raw) return null;
+    const parsed: unknown = JSON.parse(raw);
+    return Array.isArray(parsed) ? (parsed as Product[]) : null;
+  } catch {
+    return null;
+  }
+};
+
+const saveCatalog = (products: Product[]) => {
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(products));
+  } catch {
+    // Edits still apply until the page is reloaded.
+  }
+};
+
+export const createLocalProductRepository = () =>
+  createInMemoryProductRepository(loadStoredCatalog() ?? mockProducts, saveCatalog);
@@ -0,0 +1,130 @@
+import { z } from 'zod';
+import { SIZE_ORDER } from '@/lib/sizes';
+import type { Product } from '@/utils/mockData';
+import type { ProductInput } from './types';
+
+const MAX_PRICE = 10000;
+const MAX_STOCK = 9999;
+const MAX_WEIGHT = 5000;
+
+const text = (label: string, min: number, max: number) =>
+  z
+    .string()
+    .trim()
+    .min(min, min === 1 ? `${label} is required` : `${label} needs at least ${min} characters`)
+    .max(max, `${label} must be under ${max} characters`);
+
+const price = z
+  .string()
+  .trim()
+  .regex(/^\d+(\.\d{1,2})?$/, 'Use a price like 79 or 79.50')
+  .refine(value => Number(value) > 0 && Number(value) <= MAX_PRICE, `Price must be between $0.01 and $${MAX_PRICE}`);
+
+const wholeNumber = (label: string, min: number, max: number) =>
+  z
+    .string()
+    .trim()
+    .regex(/^\d+$/, `${label} must be a whole number`)
+    .refine(value => Number(value) >= min && Number(value) <= max, `${label} must be between ${min} and ${max}`);
+
+// Every field is a string as typed into the form; toProductInput converts the numbers.
+export const productFormSchema = z
+  .object({
+    name: text('Name', 2, 100),
+    description: text('Description', 10, 2000),
+    category: text('Category', 2, 40),
+    price,
+    weight: wholeNumber('Weight', 1, MAX_WEIGHT),
+    variants: z
+      .array(
+        z.object({
+          size: z.enum(SIZE_ORDER as [string, ...string[]], { errorMap: () => ({ message: 'Choose a size' }) }),
+          color: text('Color', 1, 40),
+          stock: wholeNumber('Stock', 0, MAX_STOCK),
+          // Blank uses the product price.
+          price: z.union([z.literal(''), price]),
+        })
+      )
+      .min(1, 'Add at least one size and color'),
+    images: z
+      .array(
+        z.object({
+          url: z.string().trim().url('Enter a full image URL, starting with https://'),
+          alt: text('Alt text', 1, 200),
+          // Blank shows the image for every color.
+          color: z.string(),
+        })
+      )
+      .min(1, 'Add at least one image'),
+  })
+  .superRefine((values, ctx) => {
+    const seen = new Set<string>();
+    values.variants.forEach((variant, index) => {
+      const key = `${variant.size}:${variant.color.trim().toLowerCase()}`;
+      if (seen.has(key)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ['variants', index, 'color'],
+          message: `${variant.size} in ${variant.color.trim()} is already listed`,
+        });
+      }
+      seen.add(key);
+    });
+
+    const colors = values.variants.map(variant => variant.color.trim());
+    values.images.forEach((image, index) => {
+      if (image.color && !colors.includes(image.color)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ['images', index, 'color'],
+          message: 'No variant has this color',
+        });
+      }
+    });
+  });
+
+export type ProductFormValues = z.infer<typeof productFormSchema>;
+
+export const emptyProductFormValues: ProductFormValues = {
+  name: '',
+  description: '',
+  category: '',
+  price: '',
+  weight: '',
+  variants: [{ size: 'M', color: '', stock: '0', price: '' }],
+  images: [{ url: '', alt: '', color: '' }],
+};
+
+export const toProductFormValues = (product: Product): ProductFormValues => ({
+  name: product.name,
+  description: product.description,
+  category: product.category,
+  price: String(product.price),
+  weight: String(product.weight),
+  variants: product.variants.map(variant => ({
+    size: variant.size,
+    color: variant.color,
+    stock: String(variant.stock),
+    price: variant.price === undefined ? '' : String(variant.price),
+  })),
+  images: product.images.map(image => ({ url: image.url, alt: image.alt, color: image.color ?? '' })),
+});
+
+export const toProductInput = (values: ProductFormValues): ProductInput => ({
+  name: values.name.trim(),
+  description: values.description.trim(),
+  category: values.category.trim(),
+  price: Number(values.price),
+  weight: Number(values.weight),
+  variants: values.variants.map(variant => ({
+    size: variant.size,
+    color: variant.color.trim(),
+    stock: Number(variant.stock),
+    price: variant.price === '' ? undefined : Number(variant.price),
+  })),
+  images: values.images.map(image => ({
+    url: image.url.trim(),
+    alt: image.alt.trim(),
+    ...(image.color ? { color: image.color } : {}),
+  })),
+});
@@ -0,0 +1,45 @@
+import type { Product, ProductImage } from '@/utils/mockData';
+
+// 'relevance' only differs from the natural order when there is a search term.
+export type ProductSort = 'relevance' | 'name' | 'price-low' | 'price-high' | 'rating';
+
+export interface ProductQuery {
+  q?: string;
+  categories?: string[];
+  sizes?: string[];
+  // Color families, e.g. 'blue' matches "Navy" and "Blue/White".
+  colors?: string[];
+  priceRange?: [number, number];
+  sort?: ProductSort;
+}
+
+export type ProductFilterKey = 'categories' | 'sizes' | 'colors' | 'priceRange';
+
+export interface ProductVariantInput {
+  size: string;
+  color: string;
+  stock: number;
+  price?: number;
+}
+
+// What the back office edits; ids, SKUs and the size/color lists are derived from it.
+export interface ProductInput {
+  name: string;
+  description: string;
+  category: string;
+  price: number;
+  weight: number;
+  variants: ProductVariantInput[];
+  images: ProductImage[];
+}
+
+export interface ProductRepository {
+  // Storefront reads leave archived products out.
+  list: (query?: ProductQuery) => Promise<Product[]>;
+  getById: (id: number, options?: { includeArchived?: boolean }) => Promise<Product | null>;
+  // Back office
+  listAll: () => Promise<Product[]>;
+  create: (input: ProductInput) => Promise<Product>;
+  update: (id: number, input: ProductInput) => Promise<Product>;
+  setArchived: (id: number, archived: boolean) => Promise<Product>;
+}
@@ -0,0 +1,37 @@
+import type { Product, ProductVariant } from '@/utils/mockData';
+
+export const getVariantSku = (productId: number, size: string, color: string) =>
+  `TX${productId}-${size}-${color.toUpperCase().replace(/[^A-Z0-9]/g, '')}`;
+
+export const findVariant = (product: Product, size: string, color: string): ProductVariant | undefined =>
+  product.variants.find(variant => variant.size === size && variant.color === color);
+
+export const getVariantPrice = (product: Product, variant?: ProductVariant) =>
+  variant?.price ?? product.price;
+
+export const isProductInStock = (product: Product) =>
+  product.variants.some(variant => variant.stock > 0);
+
+// A size is available if it is in stock in the chosen color, or in any color when none is chosen yet.
+export const isSizeAvailable = (product: Product, size: string, color?: string) =>
+  product.variants.some(variant =>
+    variant.size === size && (!color || variant.color === color) && variant.stock > 0
+  );
+
+export const isColorAvailable = (product: Product, color: string, size?: string) =>
+  product.variants.some(variant =>
+    variant.color === color && (!size || variant.size === size) && variant.stock > 0
+  );
+
+// Low stock is called out so shoppers know to hurry.
+export const getStockLabel = (product: Product, variant?: ProductVariant) => {
+  if (!variant) return isProductInStock(product) ? 'In Stock' : 'Out of Stock';
+  if (variant.stock === 0) return 'Out of Stock';
+  return variant.stock <= 3 ? `Only ${variant.stock} left` : 'In Stock';
+};
+
+export const getPriceRange = (product: Product): [number, number] => {
+  const prices = product.variants.map(variant => getVariantPrice(product, variant));
+  if (prices.length === 0) return [product.price, product.price];
+  return [Math.min(...prices), Math.max(...prices)];
+};
@@ -0,0 +1,40 @@
+export type CardBrand = 'visa' | 'mastercard' | 'amex' | 'discover' | 'unknown';
+
+export const normalizeCardNumber = (value: string) => value.replace(/[\s-]/g, '');
+
+export const detectCardBrand = (cardNumber: string): CardBrand => {
+  const digits = normalizeCardNumber(cardNumber);
+  if (/^4/.test(digits)) return 'visa';
+  if (/^(5[1-5]|2(2[2-9]|[3-6]\d|7[01]|720))/.test(digits)) return 'mastercard';
+  if (/^3[47]/.test(digits)) return 'amex';
+  if (/^(6011|65|64[4-9])/.test(digits)) return 'discover';
+  return 'unknown';
+};
+
+export const passesLuhn = (cardNumber: string) => {
+  const digits = normalizeCardNumber(cardNumber);
+  if (!/^\d{12,19}$/.test(digits)) return false;
+
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+};
+
+export const getCvvLength = (brand: CardBrand) => (brand === 'amex' ? 4 : 3);
+
+// A card is valid through the last day of its expiry month.
+export const isExpiryInFuture = (expiry: string, now: Date = new Date()) => {
+  const match = /^(\d{2})\/(\d{2})$/.exec(expiry.trim());
+  if (!match) return false;
+  const month = Number(match[1]);
+  const year = 2000 + Number(match[2]);
+  if (month < 1 || month > 12) return false;
+  return new Date(year, month, 1) > now;
+};
@@ -0,0 +1,24 @@
+export interface CountryRule {
+  code: string;
+  name: string;
+  postalCodeLabel: string;
+  postalCodePattern: RegExp;
+  postalCodeExample: string;
+  // Set for countries whose addresses include a state or province; it is required there.
+  stateLabel?: string;
+}
+
+export const COUNTRIES: CountryRule[] = [
+  { code: 'US', name: 'United States', postalCodeLabel: 'ZIP Code', postalCodePattern: /^\d{5}(-\d{4})?$/, postalCodeExample: '94103', stateLabel: 'State' },
+  { code: 'CA', name: 'Canada', postalCodeLabel: 'Postal Code', postalCodePattern: /^[ABCEGHJ-NPRSTVXY]\d[ABCEGHJ-NPRSTV-Z] ?\d[ABCEGHJ-NPRSTV-Z]\d$/i, postalCodeExample: 'K1A 0B1', stateLabel: 'Province' },
+  { code: 'GB', name: 'United Kingdom', postalCodeLabel: 'Postcode', postalCodePattern: /^[A-Z]{1,2}\d[A-Z\d]? ?\d[A-Z]{2}$/i, postalCodeExample: 'SW1A 1AA' },
+  { code: 'AU', name: 'Australia', postalCodeLabel: 'Postcode', postalCodePattern: /^\d{4}$/, postalCodeExample: '2000', stateLabel: 'State' },
+  { code: 'DE', name: 'Germany', postalCodeLabel: 'Postleitzahl', postalCodePattern: /^\d{5}$/, postalCodeExample: '10115' },
+  { code: 'FR', name: 'France', postalCodeLabel: 'Code Postal', postalCodePattern: /^\d{5}$/, postalCodeExample: '75001' },
+  { code: 'IN', name: 'India', postalCodeLabel: 'PIN Code', postalCodePattern: /^[1-9]\d{5}$/, postalCodeExample: '110001', stateLabel: 'State' },
+  { code: 'LK', name: 'Sri Lanka', postalCodeLabel: 'Postal Code', postalCodePattern: /^\d{5}$/, postalCodeExample: '00100' },
+];
+
+export const COUNTRY_CODES = COUNTRIES.map(country => country.code) as [string, ...string[]];
+
+export const getCountryRule = (code: string) => COUNTRIES.find(country => country.code === code);
@@ -0,0 +1,5 @@
+export * from './card';
+export * from './countries';
+export * from './progress';
+export * from './schema';
+export * from './steps';
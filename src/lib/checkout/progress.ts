@@ -0,0 +1,51 @@
+import { checkoutDefaultValues, type CheckoutFormValues } from './schema';
+import { CHECKOUT_STEPS, getStepIndex } from './steps';
+
+const PROGRESS_KEY = 'threadx-checkout';
+
+// Card details are never written to storage; the shopper re-enters them after a reload.
+const SENSITIVE_FIELDS = ['cardNumber', 'expiryDate', 'cvv'] as const;
+
+interface CheckoutProgress {
+  stepIndex: number;
+  values: CheckoutFormValues;
+}
+
+export const loadCheckoutProgress = (): CheckoutProgress | null => {
+  try {
+    const raw = window.sessionStorage.getItem(PROGRESS_KEY);
+    if (!raw) return null;
+
+    const saved = JSON.parse(raw) as Partial<CheckoutProgress>;
+    const values = { ...checkoutDefaultValues, ...saved.values };
+    let stepIndex = Math.min(Math.max(0, Number(saved.stepIndex) || 0), CHECKOUT_STEPS.length - 1);
+    if (values.paymentMethod === 'card') {
+      stepIndex = Math.min(stepIndex, getStepIndex('payment'));
+    }
+
+    return { stepIndex, values };
+  } catch {
+    return null;
+  }
+};
+
+export const saveCheckoutProgress = (stepIndex: number, values: CheckoutFormValues) => {
+  const safeValues = { ...values };
+  for (const field of SENSITIVE_FIELDS) {
+    safeValues[field] = '';
+  }
+
+  try {
+    window.sessionStorage.setItem(PROGRESS_KEY, JSON.stringify({ stepIndex, values: safeValues }));
+  } catch {
+    // Progress just won't survive a reload.
+  }
+};
+
+export const clearCheckoutProgress = () => {
+  try {
+    window.sessionStorage.removeItem(PROGRESS_KEY);
+  } catch {
+    // Nothing to clear.
+  }
+};
@@ -0,0 +1,127 @@
+import { describe, expect, it } from 'vitest';
+import { CheckoutFormValues, createCheckoutSchema } from './schema';
+
+// Fixed clock: 15 June 2025.
+const schema = createCheckoutSchema(() => new Date(2025, 5, 15));
+
+const validValues: CheckoutFormValues = {
+  firstName: 'Ada',
+  lastName: 'Lovelace',
+  email: 'ada@example.com',
+  phone: '',
+  address: '1 Market St',
+  city: 'San Francisco',
+  state: 'CA',
+  zipCode: '94103',
+  country: 'US',
+  deliveryMethod: 'standard',
+  paymentMethod: 'card',
+  cardNumber: '4242 4242 4242 4242',
+  expiryDate: '12/27',
+  cvv: '123',
+  nameOnCard: 'Ada Lovelace',
+};
+
+const errorsFor = (overrides: Partial<CheckoutFormValues>) => {
+  const result = schema.safeParse({ ...validValues, ...overrides });
+  return result.success ? {} : result.error.flatten().fieldErrors;
+};
+
+describe('checkout schema', () => {
+  it('accepts a complete card checkout', () => {
+    expect(errorsFor({})).toEqual({});
+  });
+
+  describe('card number', () => {
+    it('rejects a number that fails the Luhn check', () => {
+      expect(errorsFor({ cardNumber: '4242 4242 4242 4241' }).cardNumber).toEqual(['Enter a valid card number']);
+    });
+
+    it('accepts dashes and spaces in a valid number', () => {
+      expect(errorsFor({ cardNumber: '5555-5555-5555-4444' }).cardNumber).toBeUndefined();
+    });
+
+    it('skips card fields for PayPal', () => {
+      expect(
+        errorsFor({ paymentMethod: 'paypal', cardNumber: '', expiryDate: '', cvv: '', nameOnCard: '' })
+      ).toEqual({});
+    });
+  });
+
+  describe('expiry date', () => {
+    it('rejects a card that expired last month', () => {
+      expect(errorsFor({ expiryDate: '05/25' }).expiryDate).toEqual(['This card has expired']);
+    });
+
+    it('accepts a card that expires this month', () => {
+      expect(errorsFor({ expiryDate: '06/25' }).expiryDate).toBeUndefined();
+    });
+
+    it('requires the MM/YY format', () => {
+      expect(errorsFor({ expiryDate: '6/2025' }).expiryDate).toEqual(['Use the MM/YY format']);
+    });
+  });
+
+  describe('CVV', () => {
+    it('requires 4 digits for American Express', () => {
+      const amex = { cardNumber: '3782 822463 10005' };
+      expect(errorsFor({ ...amex, cvv: '123' }).cvv).toEqual(['CVV must be 4 digits']);
+      expect(errorsFor({ ...amex, cvv: '1234' }).cvv).toBeUndefined();
+    });
+
+    it.each([
+      ['Visa', '4242 4242 4242 4242'],
+      ['Mastercard', '5555 5555 5555 4444'],
+      ['Discover', '6011 1111 1111 1117'],
+    ])('requires 3 digits for %s', (_brand, cardNumber) => {
+      expect(errorsFor({ cardNumber, cvv: '1234' }).cvv).toEqual(['CVV must be 3 digits']);
+      expect(errorsFor({ cardNumber, cvv: '123' }).cvv).toBeUndefined();
+    });
+  });
+
+  describe('postal code', () => {
+    it.each([
+      ['US', '94103-1234', '9410'],
+      ['CA', 'K1A 0B1', 'K1A 0D1'],
+      ['GB', 'SW1A 1AA', 'SW1A 1A'],
+      ['AU', '2000', '20000'],
+      ['DE', '10115', '1011'],
+      ['FR', '75001', '7500A'],
+      ['IN', '110001', '010001'],
+      ['LK', '00100', '0010'],
+    ])('validates %s postal codes', (country, valid, invalid) => {
+      expect(errorsFor({ country, zipCode: valid }).zipCode).toBeUndefined();
+      expect(errorsFor({ country, zipCode: invalid }).zipCode).toHaveLength(1);
+    });
+
+    it('names the country-specific format in the error', () => {
+      expect(errorsFor({ country: 'GB', zipCode: '12345' }).zipCode).toEqual([
+        'Enter a valid Postcode (e.g. SW1A 1AA)',
+      ]);
+    });
+
+    it('rejects an unsupported country', () => {
+      expect(errorsFor({ country: 'ZZ' }).country).toEqual(['Select a country']);
+    });
+  });
+
+  describe('state', () => {
+    it.each([
+      ['US', 'State', '94103'],
+      ['CA', 'Province', 'K1A 0B1'],
+      ['AU', 'State', '2000'],
+      ['IN', 'State', '110001'],
+    ])('is required in %s', (country, label, zipCode) => {
+      expect(errorsFor({ country, zipCode, state: '' }).state).toEqual([`${label} is required`]);
+    });
+
+    it.each([
+      ['GB', 'SW1A 1AA'],
+      ['DE', '10115'],
+      ['FR', '75001'],
+      ['LK', '00100'],
+    ])('is optional in %s', (country, zipCode) => {
+      expect(errorsFor({ country, zipCode, state: '' })).toEqual({});
+    });
+  });
+});
@@ -0,0 +1,92 @@
+import { z } from 'zod';
+import { detectCardBrand, getCvvLength, isExpiryInFuture, passesLuhn } from './card';
+import { COUNTRY_CODES, getCountryRule } from './countries';
+
+const required = (label: string) => z.string().trim().min(1, `${label} is required`);
+
+export const createCheckoutSchema = (now: () => Date = () => new Date()) =>
+  z
+    .object({
+      firstName: required('First name'),
+      lastName: required('Last name'),
+      email: required('Email').email('Enter a valid email address'),
+      phone: z.string().trim(),
+      address: required('Address'),
+      city: required('City'),
+      state: z.string().trim(),
+      zipCode: required('Postal code'),
+      country: z.enum(COUNTRY_CODES, { errorMap: () => ({ message: 'Select a country' }) }),
+      deliveryMethod: required('Delivery method'),
+      paymentMethod: z.enum(['card', 'paypal']),
+      cardNumber: z.string().trim(),
+      expiryDate: z.string().trim(),
+      cvv: z.string().trim(),
+      nameOnCard: z.string().trim(),
+    })
+    .superRefine((data, ctx) => {
+      const country = getCountryRule(data.country);
+      if (country?.stateLabel && !data.state) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['state'], message: `${country.stateLabel} is required` });
+      }
+      if (country && data.zipCode && !country.postalCodePattern.test(data.zipCode)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ['zipCode'],
+          message: `Enter a valid ${country.postalCodeLabel} (e.g. ${country.postalCodeExample})`,
+        });
+      }
+
+      if (data.paymentMethod !== 'card') return;
+
+      if (!data.cardNumber) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['cardNumber'], message: 'Card number is required' });
+      } else if (!passesLuhn(data.cardNumber)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['cardNumber'], message: 'Enter a valid card number' });
+      }
+
+      if (!data.expiryDate) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['expiryDate'], message: 'Expiry date is required' });
+      } else if (!/^\d{2}\/\d{2}$/.test(data.expiryDate)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['expiryDate'], message: 'Use the MM/YY format' });
+      } else if (!isExpiryInFuture(data.expiryDate, now())) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['expiryDate'], message: 'This card has expired' });
+      }
+
+      const cvvLength = getCvvLength(detectCardBrand(data.cardNumber));
+      if (!new RegExp(`^\\d{${cvvLength}}$`).test(data.cvv)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ['cvv'],
+          message: `CVV must be ${cvvLength} digits`,
+        });
+      }
+
+      if (!data.nameOnCard) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['nameOnCard'], message: 'Name on card is required' });
+      }
+    });
+
+export const checkoutSchema = createCheckoutSchema();
+
+export type CheckoutFormValues = z.infer<typeof checkoutSchema>;
+
+export const checkoutDefaultValues: CheckoutFormValues = {
+  firstName: '',
+  lastName: '',
+  email: '',
+  phone: '',
+  address: '',
+  city: '',
+  state: '',
+  zipCode: '',
+  country: 'US',
+  deliveryMethod: 'standard',
+  paymentMethod: 'card',
+  cardNumber: '',
+  expiryDate: '',
+  cvv: '',
+  nameOnCard: '',
+};
+
+// The cart estimates tax for the checkout's default destination until the shopper enters one.
+export const checkoutDefaultRegion = { country: checkoutDefaultValues.country, state: checkoutDefaultValues.state };
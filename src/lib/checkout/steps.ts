@@ -0,0 +1,25 @@
+import type { FieldPath } from 'react-hook-form';
+import type { CheckoutFormValues } from './schema';
+
+export type CheckoutStepId = 'contact' | 'shipping' | 'delivery' | 'payment' | 'review';
+
+export interface CheckoutStep {
+  id: CheckoutStepId;
+  title: string;
+  // Fields validated before the shopper may leave this step.
+  fields: FieldPath<CheckoutFormValues>[];
+}
+
+export const CHECKOUT_STEPS: CheckoutStep[] = [
+  { id: 'contact', title: 'Contact', fields: ['email', 'phone'] },
+  {
+    id: 'shipping',
+    title: 'Shipping',
+    fields: ['firstName', 'lastName', 'country', 'address', 'city', 'state', 'zipCode'],
+  },
+  { id: 'delivery', title: 'Delivery', fields: ['deliveryMethod'] },
+  { id: 'payment', title: 'Payment', fields: ['paymentMethod', 'cardNumber', 'expiryDate', 'cvv', 'nameOnCard'] },
+  { id: 'review', title: 'Review', fields: [] },
+];
+
+export const getStepIndex = (id: CheckoutStepId) => CHECKOUT_STEPS.findIndex(step => step.id === id);
@@ -0,0 +1,46 @@
+import type { Coupon } from './types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const COUPONS: Coupon[] = [
+  {
+    code: 'WELCOME10',
+    description: '10% off your order',
+    rule: { type: 'percentage', percent: 10 },
+  },
+  {
+    code: 'SAVE20',
+    description: '$20 off orders over $150',
+    rule: { type: 'fixed', amount: 2000 },
+    minSpend: 15000,
+  },
+  {
+    code: 'FREESHIP',
+    description: 'Free shipping on any order',
+    rule: { type: 'free-shipping' },
+  },
+  {
+    code: 'CASUAL3FOR2',
+    description: 'Buy 2 casual shirts, get 1 free',
+    rule: { type: 'buy-x-get-y', buy: 2, get: 1 },
+    eligibleCategories: ['Casual'],
+  },
+  {
+    code: 'SUMMER15',
+    description: '15% off summer shirts',
+    rule: { type: 'percentage', percent: 15 },
+    eligibleCategories: ['Summer'],
+    // A sample limited-time offer; it rolls forward so the code always has time left.
+    expiresAt: new Date(Date.now() + 30 * DAY_MS).toISOString(),
+  },
+  {
+    code: 'LAUNCH50',
+    description: '$50 off, first 100 orders only',
+    rule: { type: 'fixed', amount: 5000 },
+    minSpend: 20000,
+    usageLimit: 100,
+  },
+];
+
+export const findCoupon = (code: string, coupons: Coupon[] = COUPONS) =>
+  coupons.find(coupon => coupon.code === code.trim().toUpperCase());
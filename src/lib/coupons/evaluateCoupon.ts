@@ -0,0 +1,75 @@
+import type { CartItem } from '@/context/CartContext';
+import { formatCents, toCents } from '@/lib/money';
+import type { Coupon, CouponEvaluation } from './types';
+
+export interface CouponContext {
+  // Category of each product in the cart, keyed by product id.
+  categories: Map<number, string>;
+  usageCount?: number;
+  now?: Date;
+}
+
+const reject = (reason: string): CouponEvaluation => ({ status: 'rejected', reason });
+
+const getBuyXGetYDiscount = (units: number[], buy: number, get: number) => {
+  const freeUnits = Math.floor(units.length / (buy + get)) * get;
+  return [...units].sort((a, b) => a - b).slice(0, freeUnits).reduce((total, price) => total + price, 0);
+};
+
+export const evaluateCoupon = (
+  coupon: Coupon | undefined,
+  cart: CartItem[],
+  context: CouponContext
+): CouponEvaluation => {
+  if (!coupon) return reject("This code isn't valid");
+
+  const now = context.now ?? new Date();
+  if (coupon.startsAt && new Date(coupon.startsAt) > now) {
+    return reject(`${coupon.code} isn't active yet`);
+  }
+  if (coupon.expiresAt && new Date(coupon.expiresAt) < now) {
+    return reject(`${coupon.code} has expired`);
+  }
+  if (coupon.usageLimit !== undefined && (context.usageCount ?? 0) >= coupon.usageLimit) {
+    return reject(`${coupon.code} has reached its usage limit`);
+  }
+
+  const eligibleCategories = coupon.eligibleCategories?.map(category => category.toLowerCase());
+  const eligibleItems = eligibleCategories
+    ? cart.filter(item => eligibleCategories.includes(context.categories.get(item.id)?.toLowerCase() ?? ''))
+    : cart;
+
+  if (eligibleItems.length === 0) {
+    return reject(`${coupon.code} only applies to ${coupon.eligibleCategories.join(', ')} items`);
+  }
+
+  const eligibleSubtotal = eligibleItems.reduce((total, item) => total + toCents(item.price) * item.quantity, 0);
+  if (coupon.minSpend !== undefined && eligibleSubtotal < coupon.minSpend) {
+    return reject(
+      `Spend ${formatCents(coupon.minSpend - eligibleSubtotal)} more${eligibleCategories ? ' on eligible items' : ''} to use ${coupon.code}`
+    );
+  }
+
+  const { rule } = coupon;
+  switch (rule.type) {
+    case 'percentage':
+      return { status: 'applied', coupon, discount: Math.round((eligibleSubtotal * rule.percent) / 100), freeShipping: false };
+
+    case 'fixed':
+      return { status: 'applied', coupon, discount: Math.min(rule.amount, eligibleSubtotal), freeShipping: false };
+
+    case 'free-shipping':
+      return { status: 'applied', coupon, discount: 0, freeShipping: true };
+
+    case 'buy-x-get-y': {
+      const units = eligibleItems.flatMap(item => Array(item.quantity).fill(toCents(item.price)) as number[]);
+      if (units.length < rule.buy + rule.get) {
+        return reject(`Add ${rule.buy + rule.get - units.length} more eligible item(s) to use ${coupon.code}`);
+      }
+      return { status: 'applied', coupon, discount: getBuyXGetYDiscount(units, rule.buy, rule.get), freeShipping: false };
+    }
+
+    default:
+      return reject("This code isn't valid");
+  }
+};
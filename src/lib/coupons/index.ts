@@ -0,0 +1,4 @@
+export * from './types';
+export { COUPONS, findCoupon } from './coupons';
+export { evaluateCoupon, type CouponContext } from './evaluateCoupon';
+export { getCouponUsageCount, recordCouponRedemption } from './usage';
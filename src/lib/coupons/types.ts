@@ -0,0 +1,25 @@
+export type CouponRule =
+  | { type: 'percentage'; percent: number }
+  // Cents off the eligible subtotal.
+  | { type: 'fixed'; amount: number }
+  | { type: 'free-shipping' }
+  // For every `buy` eligible units, the next `get` cheapest units are free.
+  | { type: 'buy-x-get-y'; buy: number; get: number };
+
+export interface Coupon {
+  code: string;
+  description: string;
+  rule: CouponRule;
+  // Cents of eligible merchandise required before the coupon applies.
+  minSpend?: number;
+  // Product categories the coupon applies to; all categories when omitted.
+  eligibleCategories?: string[];
+  startsAt?: string;
+  expiresAt?: string;
+  // Total redemptions allowed across all orders.
+  usageLimit?: number;
+}
+
+export type CouponEvaluation =
+  | { status: 'applied'; coupon: Coupon; discount: number; freeShipping: boolean }
+  | { status: 'rejected'; reason: string };
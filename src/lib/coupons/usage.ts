@@ -0,0 +1,22 @@
+const USAGE_KEY = 'threadx-coupon-usage';
+
+const readUsage = (): Record<string, number> => {
+  try {
+    const raw = window.localStorage.getItem(USAGE_KEY);
+    return raw ? (JSON.parse(raw) as Record<string, number>) : {};
+  } catch {
+    return {};
+  }
+};
+
+export const getCouponUsageCount = (code: string) => readUsage()[code] ?? 0;
+
+export const recordCouponRedemption = (code: string) => {
+  const usage = readUsage();
+  usage[code] = (usage[code] ?? 0) + 1;
+  try {
+    window.localStorage.setItem(USAGE_KEY, JSON.stringify(usage));
+  } catch {
+    // Usage limits are best-effort when storage is unavailable.
+  }
+};
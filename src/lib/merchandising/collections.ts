@@ -0,0 +1,31 @@
+import type { MerchandisingCollection } from './types';
+
+export const DEFAULT_COLLECTIONS: MerchandisingCollection[] = [
+  {
+    id: 'featured',
+    title: 'Featured Products',
+    subtitle: 'Handpicked premium shirts that combine style, comfort, and quality craftsmanship.',
+    rule: { type: 'curated', productIds: [1, 3, 4, 6] },
+  },
+  {
+    id: 'new-arrivals',
+    title: 'New Arrivals',
+    subtitle: 'The latest additions to the Threadx collection.',
+    rule: { type: 'new-arrivals' },
+  },
+  {
+    id: 'best-sellers',
+    title: 'Best Sellers',
+    subtitle: 'The shirts our customers keep coming back for.',
+    rule: { type: 'best-sellers' },
+  },
+  {
+    id: 'summer-edit',
+    title: 'The Summer Edit',
+    subtitle: 'Light, breathable shirts for warm days.',
+    rule: { type: 'curated', productIds: [6, 5, 2] },
+    pinnedProductIds: [6],
+    startsAt: '2027-05-01T00:00:00Z',
+    endsAt: '2027-08-31T23:59:59Z',
+  },
+];
@@ -0,0 +1,15 @@
+import type { MerchandisingCollection, MerchandisingSource } from './types';
+
+export const createHttpMerchandisingSource = (baseUrl: string): MerchandisingSource => {
+  const root = baseUrl.replace(/\/+$/, '');
+
+  return {
+    listCollections: async () => {
+      const response = await fetch(`${root}/collections`);
+      if (!response.ok) {
+        throw new Error(`Failed to load collections (${response.status})`);
+      }
+      return (await response.json()) as MerchandisingCollection[];
+    },
+  };
+};
@@ -0,0 +1,19 @@
+import { createHttpMerchandisingSource } from './httpMerchandisingSource';
+import { createStaticMerchandisingSource } from './staticMerchandisingSource';
+import type { MerchandisingSource } from './types';
+
+export * from './types';
+export { DEFAULT_COLLECTIONS } from './collections';
+export {
+  DEFAULT_COLLECTION_LIMIT,
+  isCollectionActive,
+  resolveCollection,
+  type MerchandisingContext,
+} from './resolveCollection';
+export { createHttpMerchandisingSource, createStaticMerchandisingSource };
+
+// Set VITE_MERCHANDISING_API_URL to manage home page collections from a REST backend; otherwise DEFAULT_COLLECTIONS is used.
+export const createDefaultMerchandisingSource = (): MerchandisingSource => {
+  const apiUrl = import.meta.env.VITE_MERCHANDISING_API_URL;
+  return apiUrl ? createHttpMerchandisingSource(apiUrl) : createStaticMerchandisingSource();
+};
@@ -0,0 +1,62 @@
+import { isProductInStock } from '@/lib/catalog';
+import type { ProductCount } from '@/lib/orders';
+import type { Product } from '@/utils/mockData';
+import type { MerchandisingCollection } from './types';
+
+export const DEFAULT_COLLECTION_LIMIT = 4;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface MerchandisingContext {
+  // Units sold per product, best sellers first.
+  bestSellers: ProductCount[];
+  now?: Date;
+}
+
+export const isCollectionActive = (collection: MerchandisingCollection, now: Date = new Date()) =>
+  (!collection.startsAt || new Date(collection.startsAt) <= now) &&
+  (!collection.endsAt || now <= new Date(collection.endsAt));
+
+const applyRule = (
+  collection: MerchandisingCollection,
+  products: Product[],
+  { bestSellers, now = new Date() }: MerchandisingContext
+): Product[] => {
+  const rule = collection.rule;
+  switch (rule.type) {
+    case 'curated':
+      return rule.productIds
+        .map(id => products.find(product => product.id === id))
+        .filter((product): product is Product => !!product);
+
+    case 'new-arrivals': {
+      const since = rule.withinDays === undefined ? -Infinity : now.getTime() - rule.withinDays * DAY_MS;
+      return products
+        .filter(product => isProductInStock(product) && new Date(product.createdAt).getTime() >= since)
+        .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+    }
+
+    case 'best-sellers':
+      return bestSellers
+        .map(({ productId }) => products.find(product => product.id === productId))
+        .filter((product): product is Product => !!product && isProductInStock(product));
+
+    default:
+      return [];
+  }
+};
+
+// Pinned products come first, then the rule's picks, without duplicates.
+export const resolveCollection = (
+  collection: MerchandisingCollection,
+  products: Product[],
+  context: MerchandisingContext
+): Product[] => {
+  const pinned = (collection.pinnedProductIds ?? [])
+    .map(id => products.find(product => product.id === id))
+    .filter((product): product is Product => !!product);
+  const pinnedIds = new Set(pinned.map(product => product.id));
+
+  return [...pinned, ...applyRule(collection, products, context).filter(product => !pinnedIds.has(product.id))]
+    .slice(0, collection.limit ?? DEFAULT_COLLECTION_LIMIT);
+};
@@ -0,0 +1,8 @@
+import { DEFAULT_COLLECTIONS } from './collections';
+import type { MerchandisingCollection, MerchandisingSource } from './types';
+
+export const createStaticMerchandisingSource = (
+  collections: MerchandisingCollection[] = DEFAULT_COLLECTIONS
+): MerchandisingSource => ({
+  listCollections: async () => collections,
+});
@@ -0,0 +1,26 @@
+export type CollectionRule =
+  // Hand-picked products, shown in the given order.
+  | { type: 'curated'; productIds: number[] }
+  // Newest products first; only those added within `withinDays` when set.
+  | { type: 'new-arrivals'; withinDays?: number }
+  // Products ranked by units sold.
+  | { type: 'best-sellers' };
+
+export interface MerchandisingCollection {
+  id: string;
+  title: string;
+  subtitle?: string;
+  rule: CollectionRule;
+  // Shown first regardless of the rule.
+  pinnedProductIds?: number[];
+  // Defaults to DEFAULT_COLLECTION_LIMIT.
+  limit?: number;
+  // The collection is only shown between these times (ISO 8601) when set.
+  startsAt?: string;
+  endsAt?: string;
+}
+
+export interface MerchandisingSource {
+  // Collections in the order they appear on the home page.
+  listCollections: () => Promise<MerchandisingCollection[]>;
+}
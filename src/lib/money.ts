@@ -0,0 +1,4 @@
+// Money is handled in integer cents; prices on products and cart lines are still whole currency units.
+export const toCents = (amount: number) => Math.round(amount * 100);
+
+export const formatCents = (cents: number) => `$${(cents / 100).toFixed(2)}`;
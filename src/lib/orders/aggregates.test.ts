@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { countBoughtTogether, countUnitsSold } from './aggregates';
+import type { Order, OrderLine } from './types';
+
+const line = (productId: number, quantity = 1): OrderLine => ({
+  lineId: `${productId}:M:Black`,
+  productId,
+  sku: `TX${productId}-M-BLACK`,
+  name: `Product ${productId}`,
+  image: '',
+  size: 'M',
+  color: 'Black',
+  quantity,
+  unitPrice: 2000,
+  lineTotal: 2000,
+});
+
+const order = (...productIds: number[]): Pick<Order, 'items'> => ({ items: productIds.map(id => line(id)) });
+
+describe('countBoughtTogether', () => {
+  it('counts the orders each other product shared with the seeds, most first', () => {
+    const orders = [order(1, 2, 3), order(1, 3), order(2, 4), order(5, 3)];
+
+    expect(countBoughtTogether(orders, [1])).toEqual([
+      { productId: 3, count: 2 },
+      { productId: 2, count: 1 },
+    ]);
+  });
+
+  it('counts an order once however many seeds or lines it has', () => {
+    const orders = [order(1, 2, 2, 3), order(4, 5)];
+
+    expect(countBoughtTogether(orders, [1, 2])).toEqual([{ productId: 3, count: 1 }]);
+  });
+});
+
+describe('countUnitsSold', () => {
+  it('sums units per product, best sellers first, leaving out cancelled orders', () => {
+    const orders: Pick<Order, 'items' | 'status'>[] = [
+      { status: 'delivered', items: [line(1, 2), line(2, 1)] },
+      { status: 'pending', items: [line(2, 3)] },
+      { status: 'cancelled', items: [line(1, 10)] },
+    ];
+
+    expect(countUnitsSold(orders)).toEqual([
+      { productId: 2, count: 4 },
+      { productId: 1, count: 2 },
+    ]);
+  });
+});
@@ -0,0 +1,34 @@
+import type { Order, ProductCount } from './types';
+
+const byCount = (counts: Map<number, number>): ProductCount[] =>
+  [...counts]
+    .map(([productId, count]) => ({ productId, count }))
+    .sort((a, b) => b.count - a.count || a.productId - b.productId);
+
+// Units sold per product, most first; cancelled orders don't count.
+export const countUnitsSold = (orders: Pick<Order, 'items' | 'status'>[]): ProductCount[] => {
+  const units = new Map<number, number>();
+  for (const order of orders) {
+    if (order.status === 'cancelled') continue;
+    for (const line of order.items) {
+      units.set(line.productId, (units.get(line.productId) ?? 0) + line.quantity);
+    }
+  }
+  return byCount(units);
+};
+
+// Orders containing any of `productIds`, counted per other product in them.
+export const countBoughtTogether = (orders: Pick<Order, 'items'>[], productIds: number[]): ProductCount[] => {
+  const seeds = new Set(productIds);
+  const counts = new Map<number, number>();
+
+  for (const order of orders) {
+    const ids = new Set(order.items.map(line => line.productId));
+    if (![...ids].some(id => seeds.has(id))) continue;
+    for (const id of ids) {
+      if (!seeds.has(id)) counts.set(id, (counts.get(id) ?? 0) + 1);
+    }
+  }
+
+  return byCount(counts);
+};
@@ -0,0 +1,38 @@
+import { toCents } from '@/lib/money';
+import type { CreateOrderInput, Order } from './types';
+
+const generateOrderId = () =>
+  `TX-${Date.now().toString(36).toUpperCase()}-${Math.random().toString(36).slice(2, 6).toUpperCase()}`;
+
+export const buildOrder = (input: CreateOrderInput, now = new Date()): Order => {
+  const createdAt = now.toISOString();
+
+  return {
+    id: generateOrderId(),
+    userId: input.userId,
+    email: input.email,
+    phone: input.phone,
+    createdAt,
+    status: 'confirmed',
+    statusHistory: [{ status: 'confirmed', at: createdAt }],
+    items: input.cartItems.map(item => ({
+      lineId: item.lineId,
+      productId: item.id,
+      sku: item.sku,
+      name: item.name,
+      image: item.image,
+      size: item.size,
+      color: item.color,
+      quantity: item.quantity,
+      unitPrice: toCents(item.price),
+      lineTotal: toCents(item.price) * item.quantity,
+    })),
+    shippingAddress: input.shippingAddress,
+    billingAddress: input.billingAddress ?? input.shippingAddress,
+    shippingMethod: input.shippingMethod,
+    paymentMethod: input.paymentMethod,
+    payment: input.payment,
+    couponCode: input.couponCode,
+    totals: input.totals,
+  };
+};
@@ -0,0 +1,63 @@
+import type { Order, OrderService, ProductCount } from './types';
+
+export const createHttpOrderService = (
+  baseUrl: string,
+  getAccessToken: () => Promise<string | null>
+): OrderService => {
+  const root = baseUrl.replace(/\/+$/, '');
+
+  const request = async (path: string, init: RequestInit = {}) => {
+    const token = await getAccessToken();
+    return fetch(`${root}${path}`, {
+      ...init,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(token ? { Authorization: `Bearer ${token}` } : {}),
+        ...init.headers,
+      },
+    });
+  };
+
+  return {
+    create: async (input) => {
+      const response = await request('/orders', { method: 'POST', body: JSON.stringify(input) });
+      if (!response.ok) {
+        throw new Error(`Failed to place order (${response.status})`);
+      }
+      return (await response.json()) as Order;
+    },
+
+    getById: async (id) => {
+      const response = await request(`/orders/${encodeURIComponent(id)}`);
+      if (response.status === 404) return null;
+      if (!response.ok) {
+        throw new Error(`Failed to load order ${id} (${response.status})`);
+      }
+      return (await response.json()) as Order;
+    },
+
+    listByUser: async (userId) => {
+      const response = await request(`/orders?userId=${encodeURIComponent(userId)}`);
+      if (!response.ok) {
+        throw new Error(`Failed to load orders (${response.status})`);
+      }
+      return (await response.json()) as Order[];
+    },
+
+    getBoughtTogether: async (productIds) => {
+      const response = await request(`/orders/bought-together?productIds=${productIds.join(',')}`);
+      if (!response.ok) {
+        throw new Error(`Failed to load co-purchases (${response.status})`);
+      }
+      return (await response.json()) as ProductCount[];
+    },
+
+    getBestSellers: async (limit) => {
+      const response = await request(`/orders/best-sellers?limit=${limit}`);
+      if (!response.ok) {
+        throw new Error(`Failed to load best sellers (${response.status})`);
+      }
+      return (await response.json()) as ProductCount[];
+    },
+  };
+};
@@ -0,0 +1,14 @@
+import { createHttpOrderService } from './httpOrderService';
+import { createLocalOrderService } from './localOrderService';
+import type { OrderService } from './types';
+
+export * from './types';
+export { buildOrder } from './buildOrder';
+export { ORDER_STATUS_FLOW, ORDER_STATUS_LABELS } from './status';
+export { createHttpOrderService, createLocalOrderService };
+
+// Set VITE_ORDERS_API_URL to place orders against a REST backend; otherwise they are kept in localStorage.
+export const createDefaultOrderService = (getAccessToken: () => Promise<string | null>): OrderService => {
+  const apiUrl = import.meta.env.VITE_ORDERS_API_URL;
+  return apiUrl ? createHttpOrderService(apiUrl, getAccessToken) : createLocalOrderService();
+};
@@ -0,0 +1,37 @@
+import { countBoughtTogether, countUnitsSold } from './aggregates';
+import { buildOrder } from './buildOrder';
+import type { Order, OrderService } from './types';
+
+const ORDERS_KEY = 'threadx-orders';
+
+const readStoredOrders = (): Order[] => {
+  try {
+    const raw = window.localStorage.getItem(ORDERS_KEY);
+    return raw ? (JSON.parse(raw) as Order[]) : [];
+  } catch {
+    return [];
+  }
+};
+
+const writeStoredOrders = (orders: Order[]) => {
+  window.localStorage.setItem(ORDERS_KEY, JSON.stringify(orders));
+};
+
+export const createLocalOrderService = (): OrderService => ({
+  create: async (input) => {
+    const order = buildOrder(input);
+    writeStoredOrders([...readStoredOrders(), order]);
+    return order;
+  },
+
+  getById: async (id) => readStoredOrders().find(order => order.id === id) ?? null,
+
+  listByUser: async (userId) =>
+    readStoredOrders()
+      .filter(order => order.userId === userId)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt)),
+
+  getBoughtTogether: async (productIds) => countBoughtTogether(readStoredOrders(), productIds),
+
+  getBestSellers: async (limit) => countUnitsSold(readStoredOrders()).slice(0, limit),
+});
@@ -0,0 +1,13 @@
+import type { OrderStatus } from './types';
+
+export const ORDER_STATUS_LABELS: Record<OrderStatus, string> = {
+  pending: 'Pending',
+  confirmed: 'Confirmed',
+  processing: 'Processing',
+  shipped: 'Shipped',
+  delivered: 'Delivered',
+  cancelled: 'Cancelled',
+};
+
+// The happy path an order moves through; `pending` and `cancelled` sit outside it.
+export const ORDER_STATUS_FLOW: OrderStatus[] = ['confirmed', 'processing', 'shipped', 'delivered'];
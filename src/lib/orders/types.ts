@@ -0,0 +1,107 @@
+import type { CartItem } from '@/context/CartContext';
+import type { PaymentInstrument, PaymentStatus } from '@/lib/payments';
+
+export type OrderStatus = 'pending' | 'confirmed' | 'processing' | 'shipped' | 'delivered' | 'cancelled';
+
+export interface Address {
+  firstName: string;
+  lastName: string;
+  address: string;
+  city: string;
+  state: string;
+  zipCode: string;
+  country: string;
+}
+
+export interface OrderLine {
+  lineId: string;
+  productId: number;
+  sku: string;
+  name: string;
+  image: string;
+  size: string;
+  color: string;
+  quantity: number;
+  unitPrice: number;
+  lineTotal: number;
+}
+
+// All amounts are integer cents.
+export interface OrderTotals {
+  subtotal: number;
+  // Absent on orders placed before discounts existed.
+  discounts?: { label: string; amount: number }[];
+  shipping: number;
+  tax: number;
+  total: number;
+}
+
+export interface OrderShippingMethod {
+  id: string;
+  label: string;
+  estimatedDelivery: { from: string; to: string };
+}
+
+// A reference to the gateway transaction. Card numbers never reach the order.
+export interface OrderPayment {
+  provider: string;
+  transactionId: string;
+  status: PaymentStatus;
+  instrument: PaymentInstrument;
+}
+
+export interface OrderStatusChange {
+  status: OrderStatus;
+  at: string;
+}
+
+export interface Order {
+  id: string;
+  userId: string | null;
+  email: string;
+  phone: string;
+  createdAt: string;
+  status: OrderStatus;
+  statusHistory: OrderStatusChange[];
+  items: OrderLine[];
+  shippingAddress: Address;
+  billingAddress: Address;
+  // Absent on orders placed before shipping methods existed.
+  shippingMethod?: OrderShippingMethod;
+  paymentMethod: string;
+  // Absent on orders placed before payments were processed.
+  payment?: OrderPayment;
+  couponCode?: string;
+  totals: OrderTotals;
+}
+
+export interface CreateOrderInput {
+  userId: string | null;
+  email: string;
+  phone: string;
+  cartItems: CartItem[];
+  shippingAddress: Address;
+  billingAddress?: Address;
+  shippingMethod: OrderShippingMethod;
+  paymentMethod: string;
+  payment: OrderPayment;
+  couponCode?: string;
+  totals: OrderTotals;
+}
+
+// An aggregate over orders for one product; orders themselves never reach the storefront.
+export interface ProductCount {
+  productId: number;
+  count: number;
+}
+
+export interface OrderService {
+  create: (input: CreateOrderInput) => Promise<Order>;
+  getById: (id: string) => Promise<Order | null>;
+  // Newest first.
+  listByUser: (userId: string) => Promise<Order[]>;
+  // How many orders contained each other product alongside any of `productIds`, most first.
+  getBoughtTogether: (productIds: number[]) => Promise<ProductCount[]>;
+  // Units sold per product, best sellers first.
+  getBestSellers: (limit: number) => Promise<ProductCount[]>;
+}
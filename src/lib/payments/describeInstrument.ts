@@ -0,0 +1,14 @@
+import type { PaymentInstrument } from './types';
+
+const BRAND_LABELS: Record<string, string> = {
+  visa: 'Visa',
+  mastercard: 'Mastercard',
+  amex: 'American Express',
+  discover: 'Discover',
+};
+
+export const describeInstrument = (instrument: PaymentInstrument) => {
+  if (instrument.method === 'paypal') return 'PayPal';
+  const brand = BRAND_LABELS[instrument.brand ?? ''] ?? 'Card';
+  return instrument.last4 ? `${brand} ending ${instrument.last4}` : brand;
+};
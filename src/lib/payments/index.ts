@@ -0,0 +1,9 @@
+import { createSandboxPaymentProvider } from './sandboxPaymentProvider';
+import type { PaymentProvider } from './types';
+
+export * from './types';
+export { SANDBOX_CHALLENGE_CODE, SANDBOX_TEST_CARDS, createSandboxPaymentProvider } from './sandboxPaymentProvider';
+export { describeInstrument } from './describeInstrument';
+
+// Only the sandbox gateway exists so far; a live provider plugs in here.
+export const createDefaultPaymentProvider = (): PaymentProvider => createSandboxPaymentProvider();
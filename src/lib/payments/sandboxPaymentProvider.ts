@@ -0,0 +1,146 @@
+import { detectCardBrand, normalizeCardNumber } from '@/lib/checkout';
+import type {
+  AuthorizeResult,
+  DeclineCode,
+  Payment,
+  PaymentInstrument,
+  PaymentProvider,
+} from './types';
+
+const PAYMENTS_KEY = 'threadx-sandbox-payments';
+
+export const SANDBOX_CHALLENGE_CODE = '123456';
+
+type CardOutcome = DeclineCode | 'challenge';
+
+// Magic card numbers, modelled on the common gateway test cards. Any other
+// valid number is approved.
+export const SANDBOX_TEST_CARDS: Record<string, CardOutcome> = {
+  '4000000000000002': 'card_declined',
+  '4000000000009995': 'insufficient_funds',
+  '4000000000000069': 'expired_card',
+  '4000000000003220': 'challenge',
+};
+
+const DECLINE_MESSAGES: Record<DeclineCode, string> = {
+  card_declined: 'Your card was declined.',
+  insufficient_funds: 'Your card has insufficient funds.',
+  expired_card: 'Your card has expired.',
+  challenge_failed: 'We could not verify this payment with your bank.',
+};
+
+const readPayments = (): Record<string, Payment> => {
+  try {
+    const raw = window.localStorage.getItem(PAYMENTS_KEY);
+    return raw ? (JSON.parse(raw) as Record<string, Payment>) : {};
+  } catch {
+    return {};
+  }
+};
+
+const writePayment = (payment: Payment) => {
+  const payments = readPayments();
+  payments[payment.id] = payment;
+  window.localStorage.setItem(PAYMENTS_KEY, JSON.stringify(payments));
+  return payment;
+};
+
+const getPayment = (paymentId: string) => {
+  const payment = readPayments()[paymentId];
+  if (!payment) {
+    throw new Error(`Payment ${paymentId} not found`);
+  }
+  return payment;
+};
+
+const decline = (payment: Payment, code: DeclineCode): AuthorizeResult => ({
+  status: 'declined',
+  payment: writePayment({ ...payment, status: 'declined' }),
+  code,
+  message: DECLINE_MESSAGES[code],
+});
+
+// A deterministic gateway for development. Payments are kept in localStorage
+// with only the card brand and last four digits.
+export const createSandboxPaymentProvider = (): PaymentProvider => ({
+  id: 'sandbox',
+
+  authorize: async (request) => {
+    let instrument: PaymentInstrument = { method: request.method };
+    let outcome: CardOutcome | undefined;
+
+    if (request.method === 'card') {
+      if (!request.card) {
+        throw new Error('Card details are required');
+      }
+      const number = normalizeCardNumber(request.card.number);
+      instrument = { method: 'card', brand: detectCardBrand(number), last4: number.slice(-4) };
+      outcome = SANDBOX_TEST_CARDS[number];
+    }
+
+    const payment: Payment = {
+      id: `pay_${crypto.randomUUID().replace(/-/g, '').slice(0, 20)}`,
+      provider: 'sandbox',
+      status: 'authorized',
+      amount: request.amount,
+      amountRefunded: 0,
+      currency: request.currency,
+      instrument,
+      createdAt: new Date().toISOString(),
+    };
+
+    if (outcome === 'challenge') {
+      return {
+        status: 'challenge_required',
+        payment: writePayment({ ...payment, status: 'requires_challenge' }),
+        challenge: {
+          paymentId: payment.id,
+          message: `Enter the one-time code sent by your bank (sandbox code: ${SANDBOX_CHALLENGE_CODE}).`,
+        },
+      };
+    }
+    if (outcome) {
+      return decline(payment, outcome);
+    }
+    return { status: 'authorized', payment: writePayment(payment) };
+  },
+
+  completeChallenge: async (paymentId, response) => {
+    const payment = getPayment(paymentId);
+    if (payment.status !== 'requires_challenge') {
+      throw new Error('This payment is not awaiting verification');
+    }
+    if (response.trim() !== SANDBOX_CHALLENGE_CODE) {
+      return decline(payment, 'challenge_failed');
+    }
+    return { status: 'authorized', payment: writePayment({ ...payment, status: 'authorized' }) };
+  },
+
+  capture: async (paymentId) => {
+    const payment = getPayment(paymentId);
+    if (payment.status !== 'authorized') {
+      throw new Error(`Cannot capture a payment that is ${payment.status}`);
+    }
+    return writePayment({ ...payment, status: 'captured' });
+  },
+
+  refund: async (paymentId, amount) => {
+    const payment = getPayment(paymentId);
+    if (payment.status !== 'captured' && payment.status !== 'partially_refunded') {
+      throw new Error(`Cannot refund a payment that is ${payment.status}`);
+    }
+
+    const refundable = payment.amount - payment.amountRefunded;
+    const refundAmount = amount ?? refundable;
+    if (refundAmount <= 0 || refundAmount > refundable) {
+      throw new Error('Refund amount exceeds the captured balance');
+    }
+
+    const amountRefunded = payment.amountRefunded + refundAmount;
+    return writePayment({
+      ...payment,
+      amountRefunded,
+      status: amountRefunded === payment.amount ? 'refunded' : 'partially_refunded',
+    });
+  },
+});
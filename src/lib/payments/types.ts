@@ -0,0 +1,62 @@
+import type { CardBrand } from '@/lib/checkout';
+
+export type PaymentMethodType = 'card' | 'paypal';
+
+export interface CardDetails {
+  number: string;
+  expiry: string;
+  cvv: string;
+  name: string;
+}
+
+export interface AuthorizeRequest {
+  // Integer cents.
+  amount: number;
+  currency: string;
+  email: string;
+  method: PaymentMethodType;
+  // Required when `method` is 'card'. Providers must not keep the number after authorizing.
+  card?: CardDetails;
+}
+
+// What is safe to show and store about the instrument that was charged.
+export interface PaymentInstrument {
+  method: PaymentMethodType;
+  brand?: CardBrand;
+  last4?: string;
+}
+
+export type PaymentStatus = 'requires_challenge' | 'authorized' | 'captured' | 'partially_refunded' | 'refunded' | 'declined';
+
+export type DeclineCode = 'card_declined' | 'insufficient_funds' | 'expired_card' | 'challenge_failed';
+
+export interface Payment {
+  id: string;
+  provider: string;
+  status: PaymentStatus;
+  amount: number;
+  amountRefunded: number;
+  currency: string;
+  instrument: PaymentInstrument;
+  createdAt: string;
+}
+
+export interface PaymentChallenge {
+  paymentId: string;
+  message: string;
+}
+
+export type AuthorizeResult =
+  | { status: 'authorized'; payment: Payment }
+  | { status: 'challenge_required'; payment: Payment; challenge: PaymentChallenge }
+  | { status: 'declined'; payment: Payment; code: DeclineCode; message: string };
+
+export interface PaymentProvider {
+  id: string;
+  authorize: (request: AuthorizeRequest) => Promise<AuthorizeResult>;
+  // Answers a 3-D-Secure-style challenge raised by `authorize`.
+  completeChallenge: (paymentId: string, response: string) => Promise<AuthorizeResult>;
+  capture: (paymentId: string) => Promise<Payment>;
+  // Refunds the whole remaining amount when `amount` is omitted.
+  refund: (paymentId: string, amount?: number) => Promise<Payment>;
+}
@@ -0,0 +1,2 @@
+export * from './priceCart';
+export * from './taxRates';
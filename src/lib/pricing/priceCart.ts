@@ -0,0 +1,74 @@
+import type { CartItem } from '@/context/CartContext';
+import { toCents } from '@/lib/money';
+import { DEFAULT_TAX_RATES, resolveTaxRate, type TaxRateTable, type TaxRegion } from './taxRates';
+
+export interface PricingDiscount {
+  label: string;
+  // Positive number of cents taken off the merchandise subtotal.
+  amount: number;
+}
+
+export interface PricingContext {
+  region?: TaxRegion;
+  shipping?: number;
+  freeShipping?: boolean;
+  discounts?: PricingDiscount[];
+  taxRates?: TaxRateTable;
+}
+
+export interface PricedLine {
+  lineId: string;
+  unitPrice: number;
+  quantity: number;
+  lineTotal: number;
+}
+
+// Every amount is in integer cents.
+export interface PriceBreakdown {
+  lines: PricedLine[];
+  subtotal: number;
+  discounts: PricingDiscount[];
+  discountTotal: number;
+  shipping: number;
+  taxRate: number;
+  tax: number;
+  total: number;
+}
+
+export const priceCart = (cart: CartItem[], context: PricingContext = {}): PriceBreakdown => {
+  const lines = cart.map(item => {
+    const unitPrice = toCents(item.price);
+    return {
+      lineId: item.lineId,
+      unitPrice,
+      quantity: item.quantity,
+      lineTotal: unitPrice * item.quantity,
+    };
+  });
+
+  const subtotal = lines.reduce((total, line) => total + line.lineTotal, 0);
+
+  // Discounts never take the merchandise total below zero.
+  let remaining = subtotal;
+  const discounts = (context.discounts ?? []).map(discount => {
+    const amount = Math.min(Math.max(0, Math.round(discount.amount)), remaining);
+    remaining -= amount;
+    return { ...discount, amount };
+  });
+  const discountTotal = subtotal - remaining;
+
+  const shipping = context.freeShipping ? 0 : Math.max(0, Math.round(context.shipping ?? 0));
+  const taxRate = resolveTaxRate(context.region, context.taxRates ?? DEFAULT_TAX_RATES);
+  const tax = Math.round(remaining * taxRate);
+
+  return {
+    lines,
+    subtotal,
+    discounts,
+    discountTotal,
+    shipping,
+    taxRate,
+    tax,
+    total: remaining + shipping + tax,
+  };
+};
@@ -0,0 +1,44 @@
+export interface TaxRegion {
+  country?: string;
+  state?: string;
+}
+
+export interface TaxRateTable {
+  // Applied when neither the country nor the country-state pair has an entry.
+  defaultRate: number;
+  // Keyed by ISO country code ("GB") or country-state pair ("US-CA").
+  rates: Record<string, number>;
+}
+
+export const DEFAULT_TAX_RATES: TaxRateTable = {
+  defaultRate: 0.1,
+  rates: {
+    US: 0,
+    'US-CA': 0.0725,
+    'US-NY': 0.04,
+    'US-TX': 0.0625,
+    'US-WA': 0.065,
+    CA: 0.05,
+    'CA-ON': 0.13,
+    'CA-BC': 0.12,
+    GB: 0.2,
+    AU: 0.1,
+    DE: 0.19,
+    FR: 0.2,
+    IN: 0.18,
+    LK: 0.18,
+  },
+};
+
+export const resolveTaxRate = (region: TaxRegion = {}, table: TaxRateTable = DEFAULT_TAX_RATES) => {
+  const country = region.country?.trim().toUpperCase();
+  const state = region.state?.trim().toUpperCase();
+
+  if (country && state && table.rates[`${country}-${state}`] !== undefined) {
+    return table.rates[`${country}-${state}`];
+  }
+  if (country && table.rates[country] !== undefined) {
+    return table.rates[country];
+  }
+  return table.defaultRate;
+};
@@ -0,0 +1,10 @@
+import { isProductInStock } from '@/lib/catalog';
+import type { ProductCount } from '@/lib/orders';
+import type { Product } from '@/utils/mockData';
+
+// Turns co-purchase counts into in-stock products, most often bought together first.
+export const getBoughtTogether = (counts: ProductCount[], products: Product[], limit = 4): Product[] =>
+  counts
+    .map(({ productId }) => products.find(product => product.id === productId))
+    .filter((product): product is Product => !!product && isProductInStock(product))
+    .slice(0, limit);
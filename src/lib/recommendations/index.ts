@@ -0,0 +1,3 @@
+export { loadRecentlyViewed, recordProductView } from './recentlyViewed';
+export { getSimilarProducts, scoreSimilarity } from './similarProducts';
+export { getBoughtTogether } from './boughtTogether';
@@ -0,0 +1,24 @@
+const STORAGE_KEY = 'threadx-recently-viewed';
+const MAX_ENTRIES = 12;
+
+// Product ids, most recently viewed first.
+export const loadRecentlyViewed = (): number[] => {
+  try {
+    const raw = window.localStorage.getItem(STORAGE_KEY);
+    if (!raw) return [];
+    const parsed: unknown = JSON.parse(raw);
+    return Array.isArray(parsed) ? parsed.filter((id): id is number => typeof id === 'number') : [];
+  } catch {
+    return [];
+  }
+};
+
+export const recordProductView = (productId: number): number[] => {
+  const ids = [productId, ...loadRecentlyViewed().filter(id => id !== productId)].slice(0, MAX_ENTRIES);
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(ids));
+  } catch {
+    // History is a nicety; browsing works without it.
+  }
+  return ids;
+};
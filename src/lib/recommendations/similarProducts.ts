@@ -0,0 +1,31 @@
+import { getPriceRange, getProductColorFamilies, isProductInStock } from '@/lib/catalog';
+import type { Product } from '@/utils/mockData';
+
+const CATEGORY_WEIGHT = 3;
+const COLOR_WEIGHT = 1;
+const PRICE_WEIGHT = 2;
+
+const startingPrice = (product: Product) => getPriceRange(product)[0];
+
+// Scores how alike two products are from their category, shared color families and how close their prices are.
+export const scoreSimilarity = (target: Product, candidate: Product) => {
+  const targetFamilies = getProductColorFamilies(target.colors);
+  const sharedFamilies = getProductColorFamilies(candidate.colors).filter(family => targetFamilies.includes(family));
+  const targetPrice = startingPrice(target);
+  const priceGap = Math.abs(startingPrice(candidate) - targetPrice) / Math.max(targetPrice, 1);
+
+  return (
+    (candidate.category === target.category ? CATEGORY_WEIGHT : 0) +
+    Math.min(sharedFamilies.length, 2) * COLOR_WEIGHT +
+    Math.max(0, 1 - priceGap) * PRICE_WEIGHT
+  );
+};
+
+// Sold-out products are left out; there is nothing to recommend buying.
+export const getSimilarProducts = (target: Product, products: Product[], limit = 8): Product[] =>
+  products
+    .filter(product => product.id !== target.id && isProductInStock(product))
+    .map(product => ({ product, score: scoreSimilarity(target, product) }))
+    .sort((a, b) => b.score - a.score || a.product.id - b.product.id)
+    .slice(0, limit)
+    .map(({ product }) => product);
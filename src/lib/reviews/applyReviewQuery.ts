@@ -0,0 +1,40 @@
+import type { Review, ReviewRating } from './types';
+
+export type ReviewSort = 'newest' | 'helpful' | 'highest' | 'lowest';
+
+export interface ReviewQuery {
+  sort?: ReviewSort;
+  rating?: ReviewRating;
+  verifiedOnly?: boolean;
+}
+
+export const applyReviewQuery = (reviews: Review[], query: ReviewQuery = {}): Review[] => {
+  let result = reviews;
+
+  if (query.rating) {
+    result = result.filter(review => review.rating === query.rating);
+  }
+
+  if (query.verifiedOnly) {
+    result = result.filter(review => review.verifiedPurchase);
+  }
+
+  const newestFirst = (a: Review, b: Review) => b.createdAt.localeCompare(a.createdAt);
+  const sorted = [...result];
+  switch (query.sort) {
+    case 'helpful':
+      sorted.sort((a, b) => b.helpfulVotes.length - a.helpfulVotes.length || newestFirst(a, b));
+      break;
+    case 'highest':
+      sorted.sort((a, b) => b.rating - a.rating || newestFirst(a, b));
+      break;
+    case 'lowest':
+      sorted.sort((a, b) => a.rating - b.rating || newestFirst(a, b));
+      break;
+    default:
+      sorted.sort(newestFirst);
+      break;
+  }
+
+  return sorted;
+};
@@ -0,0 +1,7 @@
+import type { ReviewFit } from './types';
+
+export const FIT_LABELS: Record<ReviewFit, string> = {
+  small: 'Runs small',
+  true: 'True to size',
+  large: 'Runs large',
+};
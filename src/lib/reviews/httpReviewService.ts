@@ -0,0 +1,57 @@
+import type { Review, ReviewService, ReviewSummary } from './types';
+
+export const createHttpReviewService = (
+  baseUrl: string,
+  getAccessToken: () => Promise<string | null>
+): ReviewService => {
+  const root = baseUrl.replace(/\/+$/, '');
+
+  const request = async (path: string, init: RequestInit = {}) => {
+    const token = await getAccessToken();
+    return fetch(`${root}${path}`, {
+      ...init,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(token ? { Authorization: `Bearer ${token}` } : {}),
+        ...init.headers,
+      },
+    });
+  };
+
+  return {
+    listByProduct: async (productId) => {
+      const response = await request(`/products/${productId}/reviews`);
+      if (!response.ok) {
+        throw new Error(`Failed to load reviews (${response.status})`);
+      }
+      return (await response.json()) as Review[];
+    },
+
+    listSummaries: async () => {
+      const response = await request('/reviews/summaries');
+      if (!response.ok) {
+        throw new Error(`Failed to load ratings (${response.status})`);
+      }
+      return (await response.json()) as Record<number, ReviewSummary>;
+    },
+
+    create: async (input) => {
+      const response = await request(`/products/${input.productId}/reviews`, {
+        method: 'POST',
+        body: JSON.stringify(input),
+      });
+      if (!response.ok) {
+        throw new Error(`Failed to post review (${response.status})`);
+      }
+      return (await response.json()) as Review;
+    },
+
+    markHelpful: async (reviewId) => {
+      const response = await request(`/reviews/${encodeURIComponent(reviewId)}/helpful`, { method: 'POST' });
+      if (!response.ok) {
+        throw new Error(`Failed to record vote (${response.status})`);
+      }
+      return (await response.json()) as Review;
+    },
+  };
+};
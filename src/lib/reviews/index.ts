@@ -0,0 +1,20 @@
+import { createHttpReviewService } from './httpReviewService';
+import { createLocalReviewService, type OrderLookup } from './localReviewService';
+import type { ReviewService } from './types';
+
+export * from './types';
+export * from './applyReviewQuery';
+export * from './fit';
+export * from './schema';
+export { summarizeAllReviews, summarizeReviews } from './summarizeReviews';
+export { createHttpReviewService, createLocalReviewService };
+export type { OrderLookup };
+
+// Set VITE_REVIEWS_API_URL to read and post reviews through a REST backend; otherwise they are kept in localStorage.
+export const createDefaultReviewService = (
+  getAccessToken: () => Promise<string | null>,
+  orders: OrderLookup
+): ReviewService => {
+  const apiUrl = import.meta.env.VITE_REVIEWS_API_URL;
+  return apiUrl ? createHttpReviewService(apiUrl, getAccessToken) : createLocalReviewService(orders);
+};
@@ -0,0 +1,75 @@
+import type { OrderService } from '@/lib/orders';
+import { seedReviews } from './seedReviews';
+import { summarizeAllReviews } from './summarizeReviews';
+import type { Review, ReviewService } from './types';
+
+const REVIEWS_KEY = 'threadx-reviews';
+
+const readStoredReviews = (): Review[] => {
+  try {
+    const raw = window.localStorage.getItem(REVIEWS_KEY);
+    return raw ? (JSON.parse(raw) as Review[]) : seedReviews;
+  } catch {
+    return seedReviews;
+  }
+};
+
+const writeStoredReviews = (reviews: Review[]) => {
+  window.localStorage.setItem(REVIEWS_KEY, JSON.stringify(reviews));
+};
+
+export type OrderLookup = Pick<OrderService, 'listByUser'>;
+
+// Purchases are looked up through the order service, so they're found wherever orders are kept.
+const hasPurchased = async (orders: OrderLookup, userId: string, productId: number) => {
+  try {
+    return (await orders.listByUser(userId)).some(order =>
+      order.status !== 'cancelled' &&
+      order.items.some(item => item.productId === productId)
+    );
+  } catch {
+    return false;
+  }
+};
+
+export const createLocalReviewService = (orders: OrderLookup): ReviewService => ({
+  listByProduct: async (productId) => readStoredReviews().filter(review => review.productId === productId),
+
+  listSummaries: async () => summarizeAllReviews(readStoredReviews()),
+
+  create: async (input) => {
+    const verifiedPurchase = await hasPurchased(orders, input.userId, input.productId);
+    const reviews = readStoredReviews();
+    if (reviews.some(review => review.productId === input.productId && review.userId === input.userId)) {
+      throw new Error('You have already reviewed this product');
+    }
+
+    const review: Review = {
+      ...input,
+      id: `rev-${crypto.randomUUID()}`,
+      verifiedPurchase,
+      helpfulVotes: [],
+      createdAt: new Date().toISOString(),
+    };
+    writeStoredReviews([...reviews, review]);
+    return review;
+  },
+
+  markHelpful: async (reviewId, userId) => {
+    const reviews = readStoredReviews();
+    const review = reviews.find(candidate => candidate.id === reviewId);
+    if (!review) {
+      throw new Error('Review not found');
+    }
+    if (review.userId === userId) {
+      throw new Error("You can't vote on your own review");
+    }
+    if (review.helpfulVotes.includes(userId)) {
+      return review;
+    }
+
+    const updated = { ...review, helpfulVotes: [...review.helpfulVotes, userId] };
+    writeStoredReviews(reviews.map(candidate => (candidate.id === reviewId ? updated : candidate)));
+    return updated;
+  },
+});
@@ -0,0 +1,21 @@
+import { z } from 'zod';
+
+export const reviewSchema = z.object({
+  rating: z.number().int().min(1, 'Choose a star rating').max(5),
+  title: z.string().trim().min(3, 'Give your review a title').max(100, 'Keep the title under 100 characters'),
+  body: z
+    .string()
+    .trim()
+    .min(20, 'Tell us a little more (at least 20 characters)')
+    .max(2000, 'Keep your review under 2000 characters'),
+  fit: z.enum(['small', 'true', 'large'], { errorMap: () => ({ message: 'Let us know how it fits' }) }),
+});
+
+export type ReviewFormValues = z.infer<typeof reviewSchema>;
+
+export const reviewDefaultValues: ReviewFormValues = {
+  rating: 0,
+  title: '',
+  body: '',
+  fit: 'true',
+};
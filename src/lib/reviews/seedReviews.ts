@@ -0,0 +1,83 @@
+import type { Review } from './types';
+
+// Starter reviews so the catalog isn't empty in development.
+export const seedReviews: Review[] = [
+  {
+    id: 'rev-seed-1',
+    productId: 1,
+    userId: 'seed-user-1',
+    authorName: 'Daniel R.',
+    rating: 5,
+    title: 'My go-to shirt for the office',
+    body: 'Crisp fabric that holds up well after washing. The collar keeps its shape under a tie all day.',
+    fit: 'true',
+    verifiedPurchase: true,
+    helpfulVotes: ['seed-user-2', 'seed-user-3'],
+    createdAt: '2024-05-02T10:15:00.000Z',
+  },
+  {
+    id: 'rev-seed-2',
+    productId: 1,
+    userId: 'seed-user-2',
+    authorName: 'Priya S.',
+    rating: 4,
+    title: 'Great quality, slightly snug',
+    body: 'Lovely shirt, but the shoulders are a touch narrow. I would size up if you are between sizes.',
+    fit: 'small',
+    verifiedPurchase: true,
+    helpfulVotes: ['seed-user-1'],
+    createdAt: '2024-06-11T08:40:00.000Z',
+  },
+  {
+    id: 'rev-seed-3',
+    productId: 2,
+    userId: 'seed-user-3',
+    authorName: 'Marcus L.',
+    rating: 5,
+    title: 'Soft and easy to wear',
+    body: 'Wore it all weekend. The cotton is soft from the first wear and the navy has not faded at all.',
+    fit: 'true',
+    verifiedPurchase: true,
+    helpfulVotes: [],
+    createdAt: '2024-04-21T17:05:00.000Z',
+  },
+  {
+    id: 'rev-seed-4',
+    productId: 3,
+    userId: 'seed-user-1',
+    authorName: 'Daniel R.',
+    rating: 3,
+    title: 'Nice stripes, long sleeves',
+    body: 'Looks sharp, but the sleeves came out longer than expected. Fine once tucked and cuffed.',
+    fit: 'large',
+    verifiedPurchase: false,
+    helpfulVotes: ['seed-user-3'],
+    createdAt: '2024-03-14T12:00:00.000Z',
+  },
+  {
+    id: 'rev-seed-5',
+    productId: 4,
+    userId: 'seed-user-2',
+    authorName: 'Priya S.',
+    rating: 5,
+    title: 'Worth the premium',
+    body: 'The fabric has a subtle sheen and the black stays deep after many washes. Fits exactly as expected.',
+    fit: 'true',
+    verifiedPurchase: true,
+    helpfulVotes: ['seed-user-1', 'seed-user-3'],
+    createdAt: '2024-07-03T09:30:00.000Z',
+  },
+  {
+    id: 'rev-seed-6',
+    productId: 6,
+    userId: 'seed-user-3',
+    authorName: 'Marcus L.',
+    rating: 4,
+    title: 'Perfect for hot days',
+    body: 'Breathable and light. It wrinkles like any linen does, but that is part of the look.',
+    fit: 'large',
+    verifiedPurchase: true,
+    helpfulVotes: [],
+    createdAt: '2024-08-19T15:45:00.000Z',
+  },
+];
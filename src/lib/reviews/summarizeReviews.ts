@@ -0,0 +1,36 @@
+import type { Review, ReviewSummary } from './types';
+
+export const summarizeReviews = (productId: number, reviews: Review[]): ReviewSummary => {
+  const summary: ReviewSummary = {
+    productId,
+    count: reviews.length,
+    average: 0,
+    distribution: { 1: 0, 2: 0, 3: 0, 4: 0, 5: 0 },
+    fit: { small: 0, true: 0, large: 0 },
+  };
+
+  for (const review of reviews) {
+    summary.distribution[review.rating] += 1;
+    summary.fit[review.fit] += 1;
+  }
+
+  if (reviews.length > 0) {
+    const total = reviews.reduce((sum, review) => sum + review.rating, 0);
+    summary.average = Math.round((total / reviews.length) * 10) / 10;
+  }
+
+  return summary;
+};
+
+export const summarizeAllReviews = (reviews: Review[]): Record<number, ReviewSummary> => {
+  const byProduct = new Map<number, Review[]>();
+  for (const review of reviews) {
+    byProduct.set(review.productId, [...(byProduct.get(review.productId) ?? []), review]);
+  }
+
+  const summaries: Record<number, ReviewSummary> = {};
+  for (const [productId, productReviews] of byProduct) {
+    summaries[productId] = summarizeReviews(productId, productReviews);
+  }
+  return summaries;
+};
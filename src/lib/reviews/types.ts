@@ -0,0 +1,46 @@
+export type ReviewFit = 'small' | 'true' | 'large';
+
+export type ReviewRating = 1 | 2 | 3 | 4 | 5;
+
+export interface Review {
+  id: string;
+  productId: number;
+  userId: string;
+  authorName: string;
+  rating: ReviewRating;
+  title: string;
+  body: string;
+  fit: ReviewFit;
+  // The author has a non-cancelled order containing the product.
+  verifiedPurchase: boolean;
+  // Ids of the customers who found the review helpful.
+  helpfulVotes: string[];
+  createdAt: string;
+}
+
+export interface ReviewSummary {
+  productId: number;
+  count: number;
+  // 0 when there are no reviews.
+  average: number;
+  distribution: Record<ReviewRating, number>;
+  fit: Record<ReviewFit, number>;
+}
+
+export interface CreateReviewInput {
+  productId: number;
+  userId: string;
+  authorName: string;
+  rating: ReviewRating;
+  title: string;
+  body: string;
+  fit: ReviewFit;
+}
+
+export interface ReviewService {
+  listByProduct: (productId: number) => Promise<Review[]>;
+  // Keyed by product id; products without reviews are left out.
+  listSummaries: () => Promise<Record<number, ReviewSummary>>;
+  create: (input: CreateReviewInput) => Promise<Review>;
+  markHelpful: (reviewId: string, userId: string) => Promise<Review>;
+}
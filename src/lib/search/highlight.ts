@@ -0,0 +1,17 @@
+import { tokenize } from './tokenize';
+
+export interface HighlightSegment {
+  text: string;
+  match: boolean;
+}
+
+// Splits `text` into runs, flagging the words that are one of `terms`.
+export const highlightMatches = (text: string, terms: string[]): HighlightSegment[] => {
+  const wanted = new Set(terms);
+  if (wanted.size === 0) return [{ text, match: false }];
+
+  return text
+    .split(/([A-Za-z0-9\u00C0-\u024F]+)/)
+    .filter(Boolean)
+    .map(part => ({ text: part, match: tokenize(part).some(token => wanted.has(token)) }));
+};
@@ -0,0 +1,4 @@
+export { createSearchIndex, getSearchIndex, type SearchIndex, type SearchResult } from './searchIndex';
+export { editDistance } from './editDistance';
+export { highlightMatches, type HighlightSegment } from './highlight';
+export { tokenize } from './tokenize';
@@ -0,0 +1,136 @@
+import type { Product } from '@/utils/mockData';
+import { editDistance } from './editDistance';
+import { tokenize } from './tokenize';
+
+// How much a hit in each field counts towards a product's score.
+const FIELD_WEIGHTS = {
+  name: 4,
+  category: 3,
+  colors: 2,
+  description: 1,
+};
+
+type SearchField = keyof typeof FIELD_WEIGHTS;
+
+// Exact hits outrank prefix hits, which outrank typo-tolerant hits.
+const EXACT_MATCH = 1;
+const PREFIX_MATCH = 0.75;
+const FUZZY_MATCH = 0.5;
+
+const MIN_PREFIX_LENGTH = 2;
+
+const maxTypos = (term: string) => (term.length >= 8 ? 2 : term.length >= 4 ? 1 : 0);
+
+export interface SearchResult {
+  product: Product;
+  score: number;
+  // Indexed terms the query matched, for highlighting.
+  matchedTerms: string[];
+}
+
+export interface SearchIndex {
+  search: (query: string, limit?: number) => SearchResult[];
+}
+
+const fieldText = (product: Product): Record<SearchField, string> => ({
+  name: product.name,
+  category: product.category,
+  colors: product.colors.join(' '),
+  description: product.description,
+});
+
+export const createSearchIndex = (products: Product[]): SearchIndex => {
+  // term -> product id -> summed field weight
+  const postings = new Map<string, Map<number, number>>();
+  const byId = new Map(products.map(product => [product.id, product]));
+
+  for (const product of products) {
+    const fields = fieldText(product);
+    for (const field of Object.keys(FIELD_WEIGHTS) as SearchField[]) {
+      for (const term of new Set(tokenize(fields[field]))) {
+        const posting = postings.get(term) ?? new Map<number, number>();
+        posting.set(product.id, (posting.get(product.id) ?? 0) + FIELD_WEIGHTS[field]);
+        postings.set(term, posting);
+      }
+    }
+  }
+
+  const vocabulary = Array.from(postings.keys());
+
+  // Every indexed term the query token could mean, with how strongly it matches.
+  const expand = (token: string, allowPrefix: boolean) => {
+    const matches = new Map<string, number>();
+    const typos = maxTypos(token);
+
+    for (const term of vocabulary) {
+      if (term === token) {
+        matches.set(term, EXACT_MATCH);
+      } else if (allowPrefix && token.length >= MIN_PREFIX_LENGTH && term.startsWith(token)) {
+        matches.set(term, PREFIX_MATCH);
+      } else if (typos > 0 && editDistance(token, term, typos) <= typos) {
+        matches.set(term, FUZZY_MATCH);
+      }
+    }
+    return matches;
+  };
+
+  return {
+    search: (query, limit = Infinity) => {
+      const tokens = tokenize(query);
+      if (tokens.length === 0) return [];
+
+      let scores: Map<number, { score: number; matchedTerms: Set<string> }> | null = null;
+
+      for (const [index, token] of tokens.entries()) {
+        // Only the token being typed is treated as a prefix.
+        const terms = expand(token, index === tokens.length - 1);
+        const tokenScores = new Map<number, { score: number; matchedTerms: Set<string> }>();
+
+        for (const [term, strength] of terms) {
+          for (const [productId, weight] of postings.get(term)) {
+            const entry = tokenScores.get(productId) ?? { score: 0, matchedTerms: new Set<string>() };
+            entry.score = Math.max(entry.score, strength * weight);
+            entry.matchedTerms.add(term);
+            tokenScores.set(productId, entry);
+          }
+        }
+
+        // Every token has to match something.
+        if (scores === null) {
+          scores = tokenScores;
+        } else {
+          const combined = new Map<number, { score: number; matchedTerms: Set<string> }>();
+          for (const [productId, entry] of scores) {
+            const next = tokenScores.get(productId);
+            if (!next) continue;
+            combined.set(productId, {
+              score: entry.score + next.score,
+              matchedTerms: new Set([...entry.matchedTerms, ...next.matchedTerms]),
+            });
+          }
+          scores = combined;
+        }
+      }
+
+      return Array.from(scores, ([productId, entry]) => ({
+        product: byId.get(productId),
+        score: entry.score,
+        matchedTerms: Array.from(entry.matchedTerms),
+      }))
+        .sort((a, b) => b.score - a.score || a.product.name.localeCompare(b.product.name))
+        .slice(0, limit);
+    },
+  };
+};
+
+const indexCache = new WeakMap<Product[], SearchIndex>();
+
+// Indexes are reused for as long as the same product array is passed in.
+export const getSearchIndex = (products: Product[]) => {
+  let index = indexCache.get(products);
+  if (!index) {
+    index = createSearchIndex(products);
+    indexCache.set(products, index);
+  }
+  return index;
+};
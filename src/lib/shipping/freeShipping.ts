@@ -0,0 +1,23 @@
+import { getShippingMethod, type ShippingMethodId } from './methods';
+
+export interface FreeShippingProgress {
+  // Discounted subtotal, in cents, at which the method ships free.
+  threshold: number;
+  remaining: number;
+  // 0–100, for a progress bar.
+  percent: number;
+}
+
+// Before checkout the destination is unknown, so progress is measured against the domestic rate.
+export const getFreeShippingProgress = (
+  subtotal: number,
+  methodId: ShippingMethodId = 'standard'
+): FreeShippingProgress | null => {
+  const threshold = getShippingMethod(methodId)?.domestic.freeOver;
+  if (threshold === undefined) return null;
+  return {
+    threshold,
+    remaining: Math.max(0, threshold - subtotal),
+    percent: Math.min(100, Math.round((Math.max(0, subtotal) / threshold) * 100)),
+  };
+};
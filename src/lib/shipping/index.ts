@@ -0,0 +1,3 @@
+export * from './methods';
+export * from './quoteShipping';
+export * from './freeShipping';
@@ -0,0 +1,64 @@
+export type ShippingMethodId = 'standard' | 'express' | 'next-day' | 'pickup';
+
+export interface ShippingRate {
+  // Flat cost in cents before weight is added.
+  base: number;
+  // Cents per started kilogram of cart weight.
+  perKg: number;
+  // Shipping is free when the discounted subtotal reaches this many cents.
+  freeOver?: number;
+  // Business days from order to delivery.
+  transitDays: [number, number];
+}
+
+export interface ShippingMethod {
+  id: ShippingMethodId;
+  label: string;
+  description: string;
+  domestic: ShippingRate;
+  // Omitted for methods that only deliver within the origin country.
+  international?: ShippingRate;
+  // Whether the method reaches states listed in REMOTE_STATES.
+  servesRemoteStates: boolean;
+}
+
+export const ORIGIN_COUNTRY = 'US';
+
+// Domestic destinations that carry REMOTE_SURCHARGE and are out of reach for next-day delivery.
+export const REMOTE_STATES = ['AK', 'HI', 'PR'];
+export const REMOTE_SURCHARGE = 1000;
+
+export const SHIPPING_METHODS: ShippingMethod[] = [
+  {
+    id: 'standard',
+    label: 'Standard Shipping',
+    description: 'Tracked delivery by ground',
+    domestic: { base: 599, perKg: 100, freeOver: 10000, transitDays: [5, 7] },
+    international: { base: 1999, perKg: 500, freeOver: 25000, transitDays: [10, 15] },
+    servesRemoteStates: true,
+  },
+  {
+    id: 'express',
+    label: 'Express Shipping',
+    description: 'Priority air delivery',
+    domestic: { base: 1499, perKg: 200, freeOver: 30000, transitDays: [2, 3] },
+    international: { base: 3999, perKg: 800, transitDays: [4, 6] },
+    servesRemoteStates: true,
+  },
+  {
+    id: 'next-day',
+    label: 'Next-Day Delivery',
+    description: 'Order by 2pm for delivery the next business day',
+    domestic: { base: 2999, perKg: 300, transitDays: [1, 1] },
+    servesRemoteStates: false,
+  },
+  {
+    id: 'pickup',
+    label: 'Store Pickup',
+    description: 'Collect from the Threadx flagship store',
+    domestic: { base: 0, perKg: 0, transitDays: [1, 2] },
+    servesRemoteStates: false,
+  },
+];
+
+export const getShippingMethod = (id: string) => SHIPPING_METHODS.find(method => method.id === id);
@@ -0,0 +1,70 @@
+import { addBusinessDays } from 'date-fns';
+import {
+  ORIGIN_COUNTRY,
+  REMOTE_STATES,
+  REMOTE_SURCHARGE,
+  SHIPPING_METHODS,
+  type ShippingMethod,
+  type ShippingMethodId,
+} from './methods';
+
+export interface ShippingDestination {
+  country?: string;
+  state?: string;
+}
+
+export interface ShipmentDetails {
+  weightGrams: number;
+  // Merchandise subtotal after discounts, in cents.
+  subtotal: number;
+}
+
+export interface ShippingQuote {
+  methodId: ShippingMethodId;
+  label: string;
+  description: string;
+  cost: number;
+  isFree: boolean;
+  estimatedDelivery: { from: string; to: string };
+}
+
+export const quoteShipping = (
+  method: ShippingMethod,
+  destination: ShippingDestination,
+  shipment: ShipmentDetails,
+  now: Date = new Date()
+): ShippingQuote | null => {
+  const country = (destination.country || ORIGIN_COUNTRY).toUpperCase();
+  const state = destination.state?.trim().toUpperCase();
+  const isDomestic = country === ORIGIN_COUNTRY;
+  const isRemote = isDomestic && !!state && REMOTE_STATES.includes(state);
+
+  const rate = isDomestic ? method.domestic : method.international;
+  if (!rate || (isRemote && !method.servesRemoteStates)) return null;
+
+  const kilograms = Math.ceil(Math.max(0, shipment.weightGrams) / 1000);
+  const isFree = rate.freeOver !== undefined && shipment.subtotal >= rate.freeOver;
+  const cost = isFree ? 0 : rate.base + rate.perKg * kilograms + (isRemote ? REMOTE_SURCHARGE : 0);
+
+  return {
+    methodId: method.id,
+    label: method.label,
+    description: method.description,
+    cost,
+    isFree: cost === 0,
+    estimatedDelivery: {
+      from: addBusinessDays(now, rate.transitDays[0]).toISOString(),
+      to: addBusinessDays(now, rate.transitDays[1]).toISOString(),
+    },
+  };
+};
+
+export const getShippingQuotes = (
+  destination: ShippingDestination,
+  shipment: ShipmentDetails,
+  now: Date = new Date(),
+  methods: ShippingMethod[] = SHIPPING_METHODS
+): ShippingQuote[] =>
+  methods
+    .map(method => quoteShipping(method, destination, shipment, now))
+    .filter((quote): quote is ShippingQuote => quote !== null);
@@ -0,0 +1,8 @@
+// Every size the store sells, smallest first.
+export const SIZE_ORDER = ['XXS', 'XS', 'S', 'M', 'L', 'XL', 'XXL', 'XXXL'];
+
+// Position in SIZE_ORDER; sizes outside it sort last.
+export const getSizeRank = (size: string) => {
+  const rank = SIZE_ORDER.indexOf(size);
+  return rank === -1 ? SIZE_ORDER.length : rank;
+};
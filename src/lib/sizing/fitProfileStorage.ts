@@ -0,0 +1,40 @@
+import type { FitProfile } from './types';
+
+const STORAGE_KEY = 'threadx-fit-profile';
+
+const isOptionalNumber = (value: unknown) => value === undefined || typeof value === 'number';
+
+const isFitProfile = (value: unknown): value is FitProfile => {
+  if (!value || typeof value !== 'object') return false;
+  const profile = value as Record<string, unknown>;
+  return (
+    (profile.method === 'body' || profile.method === 'reference') &&
+    (profile.unit === 'cm' || profile.unit === 'in') &&
+    typeof profile.chest === 'number' &&
+    isOptionalNumber(profile.length) &&
+    isOptionalNumber(profile.sleeve)
+  );
+};
+
+export const loadFitProfile = (): FitProfile | null => {
+  try {
+    const raw = window.localStorage.getItem(STORAGE_KEY);
+    if (!raw) return null;
+    const parsed: unknown = JSON.parse(raw);
+    return isFitProfile(parsed) ? parsed : null;
+  } catch {
+    return null;
+  }
+};
+
+export const saveFitProfile = (profile: FitProfile | null) => {
+  try {
+    if (profile) {
+      window.localStorage.setItem(STORAGE_KEY, JSON.stringify(profile));
+    } else {
+      window.localStorage.removeItem(STORAGE_KEY);
+    }
+  } catch {
+    // The recommendation still works for this visit.
+  }
+};
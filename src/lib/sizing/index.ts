@@ -0,0 +1,6 @@
+export * from './types';
+export * from './sizeCharts';
+export * from './units';
+export * from './schema';
+export { describeRecommendation, recommendSize } from './recommendSize';
+export { loadFitProfile, saveFitProfile } from './fitProfileStorage';
@@ -0,0 +1,93 @@
+import { FIT_EASE, getChartSizes } from './sizeCharts';
+import type { FitProfile, GarmentMeasurements, SizeChart, SizeRecommendation } from './types';
+
+// A size counts as a match when its chest is within this many centimetres of the target.
+const CHEST_TOLERANCE = 2;
+// Sleeves shorter than the wearer's arm by more than this are flagged.
+const SLEEVE_TOLERANCE = 1;
+
+const recommendFromBody = (
+  chart: SizeChart,
+  sizes: string[],
+  profile: Extract<FitProfile, { method: 'body' }>
+): SizeRecommendation => {
+  const target = profile.chest + FIT_EASE[chart.fit];
+  const index = sizes.findIndex(name => chart.sizes[name].chest >= target - CHEST_TOLERANCE);
+  const withSleeves = (size: string, fit: SizeRecommendation['fit']): SizeRecommendation => ({
+    size,
+    fit,
+    shortSleeves: profile.sleeve !== undefined && chart.sizes[size].sleeve < profile.sleeve - SLEEVE_TOLERANCE,
+  });
+
+  if (index === -1) return withSleeves(sizes[sizes.length - 1], 'snug');
+
+  const size = sizes[index];
+  const chest = chart.sizes[size].chest;
+  if (index === 0 && chest > target + CHEST_TOLERANCE * 3) return withSleeves(size, 'loose');
+  return withSleeves(size, chest > target + CHEST_TOLERANCE ? 'between' : 'good');
+};
+
+// A shirt the shopper already owns is compared garment to garment, weighting the chest most.
+const referenceDistance = (
+  measurements: GarmentMeasurements,
+  profile: Extract<FitProfile, { method: 'reference' }>
+) =>
+  Math.abs(measurements.chest - profile.chest) * 2 +
+  (profile.length === undefined ? 0 : Math.abs(measurements.length - profile.length)) +
+  (profile.sleeve === undefined ? 0 : Math.abs(measurements.sleeve - profile.sleeve));
+
+const recommendFromReference = (
+  chart: SizeChart,
+  sizes: string[],
+  profile: Extract<FitProfile, { method: 'reference' }>
+): SizeRecommendation => {
+  const closest = sizes.reduce((best, name) =>
+    referenceDistance(chart.sizes[name], profile) < referenceDistance(chart.sizes[best], profile) ? name : best
+  );
+  const first = chart.sizes[sizes[0]].chest;
+  const last = chart.sizes[sizes[sizes.length - 1]].chest;
+  let size = closest;
+  let fit: SizeRecommendation['fit'] = 'good';
+
+  if (profile.chest > last + CHEST_TOLERANCE) {
+    fit = 'snug';
+  } else if (profile.chest < first - CHEST_TOLERANCE) {
+    fit = 'loose';
+  } else if (Math.abs(chart.sizes[closest].chest - profile.chest) > CHEST_TOLERANCE) {
+    // Between two sizes, go up rather than down.
+    fit = 'between';
+    if (chart.sizes[closest].chest < profile.chest) size = sizes[sizes.indexOf(closest) + 1];
+  }
+
+  return {
+    size,
+    fit,
+    shortSleeves: profile.sleeve !== undefined && chart.sizes[size].sleeve < profile.sleeve - SLEEVE_TOLERANCE,
+  };
+};
+
+// Returns null when none of the product's sizes are in the chart.
+export const recommendSize = (
+  chart: SizeChart,
+  offeredSizes: string[],
+  profile: FitProfile
+): SizeRecommendation | null => {
+  const sizes = getChartSizes(chart, offeredSizes);
+  if (sizes.length === 0) return null;
+
+  return profile.method === 'body'
+    ? recommendFromBody(chart, sizes, profile)
+    : recommendFromReference(chart, sizes, profile);
+};
+
+export const describeRecommendation = (recommendation: SizeRecommendation) => {
+  const notes = {
+    good: `We recommend ${recommendation.size}.`,
+    between: `You're between sizes; we recommend ${recommendation.size} for a comfortable fit.`,
+    snug: `${recommendation.size} is our largest size in this style and may fit snugly.`,
+    loose: `${recommendation.size} is our smallest size in this style and may fit loosely.`,
+  };
+  return recommendation.shortSleeves
+    ? `${notes[recommendation.fit]} Sleeves may be a little short.`
+    : notes[recommendation.fit];
+};
@@ -0,0 +1,45 @@
+import { z } from 'zod';
+import { toCentimetres } from './units';
+import type { FitProfile } from './types';
+
+// Anything outside this range (in centimetres) was most likely entered in the wrong unit.
+const MIN_CM = 20;
+const MAX_CM = 200;
+
+const measurement = (label: string, required: boolean) =>
+  z
+    .string()
+    .trim()
+    .refine(value => !required || value !== '', `Enter your ${label}`)
+    .refine(value => value === '' || (Number.isFinite(Number(value)) && Number(value) > 0), `Enter your ${label} as a number`);
+
+export const fitProfileSchema = z
+  .object({
+    method: z.enum(['body', 'reference']),
+    unit: z.enum(['cm', 'in']),
+    chest: measurement('chest', true),
+    length: measurement('length', false),
+    sleeve: measurement('sleeve length', false),
+  })
+  .superRefine((values, ctx) => {
+    for (const field of ['chest', 'length', 'sleeve'] as const) {
+      if (values[field] === '') continue;
+      const cm = toCentimetres(Number(values[field]), values.unit);
+      if (cm < MIN_CM || cm > MAX_CM) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: [field], message: 'That measurement looks off — check the unit' });
+      }
+    }
+  });
+
+export type FitProfileFormValues = z.infer<typeof fitProfileSchema>;
+
+const optionalCentimetres = (value: string, unit: FitProfile['unit']) =>
+  value === '' ? undefined : toCentimetres(Number(value), unit);
+
+export const toFitProfile = (values: FitProfileFormValues): FitProfile => {
+  const chest = toCentimetres(Number(values.chest), values.unit);
+  const sleeve = optionalCentimetres(values.sleeve, values.unit);
+  return values.method === 'body'
+    ? { method: 'body', unit: values.unit, chest, sleeve }
+    : { method: 'reference', unit: values.unit, chest, length: optionalCentimetres(values.length, values.unit), sleeve };
+};
@@ -0,0 +1,59 @@
+import { SIZE_ORDER } from '@/lib/sizes';
+import type { FitStyle, GarmentMeasurements, SizeChart } from './types';
+
+const size = (chest: number, length: number, sleeve: number): GarmentMeasurements => ({ chest, length, sleeve });
+
+const SLIM = {
+  S: size(98, 74, 84),
+  M: size(104, 76, 86),
+  L: size(110, 78, 87),
+  XL: size(116, 80, 88),
+  XXL: size(122, 82, 89),
+};
+
+const REGULAR = {
+  S: size(102, 76, 84),
+  M: size(108, 78, 86),
+  L: size(114, 80, 88),
+  XL: size(120, 82, 89),
+  XXL: size(126, 84, 90),
+};
+
+const RELAXED = {
+  S: size(106, 73, 83),
+  M: size(112, 75, 85),
+  L: size(118, 77, 87),
+  XL: size(124, 79, 88),
+  XXL: size(130, 81, 89),
+};
+
+const CHARTS: Record<FitStyle, SizeChart['sizes']> = { slim: SLIM, regular: REGULAR, relaxed: RELAXED };
+
+const CATEGORY_FITS: Record<string, FitStyle> = {
+  Formal: 'regular',
+  Business: 'regular',
+  Premium: 'slim',
+  Casual: 'relaxed',
+  Summer: 'relaxed',
+};
+
+// How much wider than the wearer's chest each cut is meant to be.
+export const FIT_EASE: Record<FitStyle, number> = { slim: 8, regular: 12, relaxed: 16 };
+
+export const FIT_STYLE_LABELS: Record<FitStyle, string> = {
+  slim: 'Slim fit',
+  regular: 'Regular fit',
+  relaxed: 'Relaxed fit',
+};
+
+// Categories without their own chart use the regular cut.
+export const getSizeChart = (category: string): SizeChart => {
+  const fit = CATEGORY_FITS[category] ?? 'regular';
+  return { category, fit, sizes: CHARTS[fit] };
+};
+
+export const getSizeChartCategories = () => Object.keys(CATEGORY_FITS);
+
+// Sizes in the chart, smallest first, optionally limited to the ones a product is made in.
+export const getChartSizes = (chart: SizeChart, offered?: string[]) =>
+  SIZE_ORDER.filter(name => chart.sizes[name] && (!offered || offered.includes(name)));
@@ -0,0 +1,29 @@
+export type MeasurementUnit = 'cm' | 'in';
+
+export type Measurement = 'chest' | 'length' | 'sleeve';
+
+// Flat garment measurements, in centimetres.
+export type GarmentMeasurements = Record<Measurement, number>;
+
+export type FitStyle = 'slim' | 'regular' | 'relaxed';
+
+export interface SizeChart {
+  category: string;
+  fit: FitStyle;
+  sizes: Record<string, GarmentMeasurements>;
+}
+
+// All values are stored in centimetres; `unit` is only how the shopper entered them.
+export type FitProfile =
+  | { method: 'body'; unit: MeasurementUnit; chest: number; sleeve?: number }
+  | { method: 'reference'; unit: MeasurementUnit; chest: number; length?: number; sleeve?: number };
+
+export type FitMethod = FitProfile['method'];
+
+export interface SizeRecommendation {
+  size: string;
+  // `between`: the shopper falls between two sizes and the larger one was picked.
+  // `snug` / `loose`: even the largest / smallest size offered is off.
+  fit: 'good' | 'between' | 'snug' | 'loose';
+  shortSleeves: boolean;
+}
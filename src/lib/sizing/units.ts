@@ -0,0 +1,12 @@
+import type { MeasurementUnit } from './types';
+
+const CM_PER_INCH = 2.54;
+
+export const toCentimetres = (value: number, unit: MeasurementUnit) =>
+  unit === 'in' ? value * CM_PER_INCH : value;
+
+export const fromCentimetres = (cm: number, unit: MeasurementUnit) =>
+  unit === 'in' ? Math.round((cm / CM_PER_INCH) * 10) / 10 : Math.round(cm);
+
+export const formatMeasurement = (cm: number, unit: MeasurementUnit) =>
+  `${fromCentimetres(cm, unit)} ${unit}`;
@@ -0,0 +1,57 @@
+import type { WishlistItem } from '@/context/WishlistContext';
+
+const GUEST_KEY = 'threadx-wishlist';
+
+// Guests share one list; each account gets its own.
+const storageKey = (userId: string | null) => (userId ? `${GUEST_KEY}:${userId}` : GUEST_KEY);
+
+// Size and color are blank when the item was saved from a product card.
+export const getWishlistItemId = (productId: number, size = '', color = '') => `${productId}:${size}:${color}`;
+
+const isWishlistItem = (value: unknown): value is WishlistItem => {
+  if (!value || typeof value !== 'object') return false;
+  const item = value as Record<string, unknown>;
+  return (
+    typeof item.id === 'string' &&
+    typeof item.productId === 'number' &&
+    typeof item.name === 'string' &&
+    typeof item.price === 'number' &&
+    typeof item.size === 'string' &&
+    typeof item.color === 'string' &&
+    typeof item.sku === 'string' &&
+    (item.quantity === undefined || typeof item.quantity === 'number')
+  );
+};
+
+export const loadWishlist = (userId: string | null): WishlistItem[] => {
+  try {
+    const raw = window.localStorage.getItem(storageKey(userId));
+    if (!raw) return [];
+    const parsed: unknown = JSON.parse(raw);
+    return Array.isArray(parsed) ? parsed.filter(isWishlistItem) : [];
+  } catch {
+    return [];
+  }
+};
+
+export const saveWishlist = (userId: string | null, items: WishlistItem[]) => {
+  try {
+    window.localStorage.setItem(storageKey(userId), JSON.stringify(items));
+  } catch {
+    // The wishlist still works for this visit.
+  }
+};
+
+export const clearGuestWishlist = () => {
+  try {
+    window.localStorage.removeItem(GUEST_KEY);
+  } catch {
+    // Nothing to clear.
+  }
+};
+
+// Items already on the account keep their position; new guest items are appended.
+export const mergeWishlists = (account: WishlistItem[], guest: WishlistItem[]) => {
+  const ids = new Set(account.map(item => item.id));
+  return [...account, ...guest.filter(item => !ids.has(item.id))];
+};
@@ -0,0 +1,59 @@
+import React from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import Navbar from '../components/Navbar';
+import Footer from '../components/Footer';
+import { useAuth } from '../context/AuthContext';
+import { toast } from 'sonner';
+
+const Account = () => {
+  const { currentUser, logout } = useAuth();
+  const navigate = useNavigate();
+
+  const handleLogout = async () => {
+    await logout();
+    toast.success('You have been signed out');
+    navigate('/');
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Navbar />
+
+      <div className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8 py-16">
+        <h1 className="text-3xl font-bold text-black mb-8">My Account</h1>
+
+        <div className="bg-white rounded-lg shadow-sm p-8 border border-gray-100">
+          <h2 className="text-xl font-semibold text-black mb-4">Profile</h2>
+          <dl className="space-y-3">
+            <div className="flex">
+              <dt className="w-32 text-gray-600">Name</dt>
+              <dd className="font-medium">{currentUser.firstName} {currentUser.lastName}</dd>
+            </div>
+            <div className="flex">
+              <dt className="w-32 text-gray-600">Email</dt>
+              <dd className="font-medium">{currentUser.email}</dd>
+            </div>
+          </dl>
+
+          <Link
+            to="/account/orders"
+            className="mt-8 block text-blue-600 hover:text-blue-700 font-medium"
+          >
+            View order history →
+          </Link>
+
+          <button
+            onClick={handleLogout}
+            className="mt-8 border-2 border-gray-300 text-gray-700 px-6 py-3 rounded-lg font-semibold hover:bg-gray-50 transition-colors"
+          >
+            Sign Out
+          </button>
+        </div>
+      </div>
+
+      <Footer />
+    </div>
+  );
+};
+
+export default Account;
@@ -3,10 +3,58 @@ import React from 'react';
 import { Link } from 'react-router-dom';
 import Navbar from '../components/Navbar';
 import Footer from '../components/Footer';
-import { useCart } from '../context/CartContext';
+import PriceSummary from '../components/PriceSummary';
+import CouponInput from '../components/CouponInput';
+import SavedItemsList from '../components/SavedItemsList';
+import ProductCarousel from '../components/recommendations/ProductCarousel';
+import { useCart, type CartItem } from '../context/CartContext';
+import { useWishlist } from '../context/WishlistContext';
+import { formatCents } from '@/lib/money';
+import { useCartPricing } from '@/hooks/use-cart-pricing';
+import { checkoutDefaultRegion } from '@/lib/checkout';
+import { useBoughtTogether, useRecentlyViewed } from '@/hooks/use-recommendations';
+import { toast } from 'sonner';
 
 const Cart = () => {
-  const { cartItems, removeFromCart, updateQuantity, getCartTotal, clearCart } = useCart();
+  const { cartItems, removeFromCart, updateQuantity, clearCart } = useCart();
+  const { pricing, coupon } = useCartPricing({ region: checkoutDefaultRegion });
+  const pricedLines = new Map(pricing.lines.map(line => [line.lineId, line]));
+  const { items: wishlistItems, addToWishlist } = useWishlist();
+  // Only items with a chosen size and color can go straight back into the cart.
+  const savedForLater = wishlistItems.filter(item => item.sku);
+  const cartProductIds = Array.from(new Set(cartItems.map(item => item.id)));
+  const boughtTogether = useBoughtTogether(cartProductIds);
+  const { products: recentlyViewed } = useRecentlyViewed(cartProductIds);
+
+  const saveForLater = (item: CartItem) => {
+    addToWishlist({
+      productId: item.id,
+      name: item.name,
+      price: item.price,
+      image: item.image,
+      size: item.size,
+      color: item.color,
+      sku: item.sku,
+      maxQuantity: item.maxQuantity,
+      quantity: item.quantity,
+    });
+    removeFromCart(item.lineId);
+    toast.success(`${item.name} saved for later`);
+  };
+
+  const savedSection = savedForLater.length > 0 && (
+    <div className="mt-12">
+      <h2 className="text-2xl font-bold text-black mb-6">Saved for Later ({savedForLater.length})</h2>
+      <SavedItemsList items={savedForLater} />
+    </div>
+  );
+
+  const recommendations = (
+    <>
+      <ProductCarousel title="Frequently Bought Together" products={boughtTogether} className="mt-16" />
+      <ProductCarousel title="Recently Viewed" products={recentlyViewed} className="mt-16" />
+    </>
+  );
 
   if (cartItems.length === 0) {
     return (
@@ -25,6 +73,8 @@ const Cart = () => {
               </Link>
             </div>
           </div>
+          {savedSection}
+          {recommendations}
         </div>
         <Footer />
       </div>
@@ -49,8 +99,8 @@ const Cart = () => {
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
           {/* Cart Items */}
           <div className="lg:col-span-2 space-y-4">
-            {cartItems.map((item, index) => (
-              <div key={index} className="bg-white rounded-lg shadow-sm p-6 border border-gray-100">
+            {cartItems.map((item) => (
+              <div key={item.lineId} className="bg-white rounded-lg shadow-sm p-6 border border-gray-100">
                 <div className="flex items-center space-x-4">
                   <img
                     src={item.image}
@@ -60,28 +110,35 @@ const Cart = () => {
                   <div className="flex-1">
                     <h3 className="font-semibold text-lg text-black">{item.name}</h3>
                     <p className="text-gray-600">Size: {item.size} | Color: {item.color}</p>
-                    <p className="text-xl font-bold text-black">${item.price}</p>
+                    <p className="text-xl font-bold text-black">{formatCents(pricedLines.get(item.lineId)?.unitPrice ?? 0)}</p>
                   </div>
                   <div className="flex items-center space-x-3">
                     <button
-                      onClick={() => updateQuantity(index, item.quantity - 1)}
+                      onClick={() => updateQuantity(item.lineId, item.quantity - 1)}
                       className="w-8 h-8 border border-gray-300 rounded flex items-center justify-center hover:bg-gray-50"
                     >
                       -
                     </button>
                     <span className="font-semibold w-8 text-center">{item.quantity}</span>
                     <button
-                      onClick={() => updateQuantity(index, item.quantity + 1)}
-                      className="w-8 h-8 border border-gray-300 rounded flex items-center justify-center hover:bg-gray-50"
+                      onClick={() => updateQuantity(item.lineId, item.quantity + 1)}
+                      disabled={item.maxQuantity !== undefined && item.quantity >= item.maxQuantity}
+                      className="w-8 h-8 border border-gray-300 rounded flex items-center justify-center hover:bg-gray-50 disabled:opacity-40 disabled:cursor-not-allowed"
                     >
                       +
                     </button>
                   </div>
                   <div className="text-right">
-                    <p className="font-bold text-lg">${(item.price * item.quantity).toFixed(2)}</p>
+                    <p className="font-bold text-lg">{formatCents(pricedLines.get(item.lineId)?.lineTotal ?? 0)}</p>
+                    <button
+                      onClick={() => saveForLater(item)}
+                      className="block ml-auto text-blue-600 hover:text-blue-700 text-sm font-medium mt-1"
+                    >
+                      Save for Later
+                    </button>
                     <button
-                      onClick={() => removeFromCart(index)}
-                      className="text-red-600 hover:text-red-700 text-sm font-medium mt-1"
+                      onClick={() => removeFromCart(item.lineId)}
+                      className="block ml-auto text-red-600 hover:text-red-700 text-sm font-medium mt-1"
                     >
                       Remove
                     </button>
@@ -89,6 +146,7 @@ const Cart = () => {
                 </div>
               </div>
             ))}
+            {savedSection}
           </div>
 
           {/* Order Summary */}
@@ -96,24 +154,10 @@ const Cart = () => {
             <div className="bg-white rounded-lg shadow-sm p-6 border border-gray-100 sticky top-24">
               <h2 className="text-xl font-bold text-black mb-6">Order Summary</h2>
               
-              <div className="space-y-3 mb-6">
-                <div className="flex justify-between">
-                  <span className="text-gray-600">Subtotal</span>
-                  <span className="font-semibold">${getCartTotal().toFixed(2)}</span>
-                </div>
-                <div className="flex justify-between">
-                  <span className="text-gray-600">Shipping</span>
-                  <span className="font-semibold">Free</span>
-                </div>
-                <div className="flex justify-between">
-                  <span className="text-gray-600">Tax</span>
-                  <span className="font-semibold">${(getCartTotal() * 0.1).toFixed(2)}</span>
-                </div>
-                <hr className="my-4" />
-                <div className="flex justify-between text-lg font-bold">
-                  <span>Total</span>
-                  <span>${(getCartTotal() * 1.1).toFixed(2)}</span>
-                </div>
+              <CouponInput applied={coupon} />
+
+              <div className="mb-6">
+                <PriceSummary {...pricing} taxLabel="Estimated Tax" shippingLabel="Calculated at checkout" />
               </div>
 
               <Link
@@ -132,6 +176,8 @@ const Cart = () => {
             </div>
           </div>
         </div>
+
+        {recommendations}
       </div>
 
       <Footer />
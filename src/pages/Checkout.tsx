@@ -1,55 +1,251 @@
-
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { useNavigate } from 'react-router-dom';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
 import Navbar from '../components/Navbar';
 import Footer from '../components/Footer';
+import PriceSummary from '../components/PriceSummary';
+import CheckoutStepper from '../components/checkout/CheckoutStepper';
+import ContactStep from '../components/checkout/ContactStep';
+import ShippingStep from '../components/checkout/ShippingStep';
+import DeliveryStep from '../components/checkout/DeliveryStep';
+import PaymentStep from '../components/checkout/PaymentStep';
+import ReviewStep from '../components/checkout/ReviewStep';
+import PaymentChallengeDialog from '../components/checkout/PaymentChallengeDialog';
+import { Form } from '@/components/ui/form';
 import { useCart } from '../context/CartContext';
+import { useAuth } from '../context/AuthContext';
+import { usePaymentProvider } from '../context/PaymentContext';
+import { useCreateOrder } from '@/hooks/use-orders';
+import {
+  CHECKOUT_STEPS,
+  checkoutDefaultValues,
+  checkoutSchema,
+  clearCheckoutProgress,
+  getStepIndex,
+  loadCheckoutProgress,
+  saveCheckoutProgress,
+  type CheckoutFormValues,
+  type CheckoutStepId,
+} from '@/lib/checkout';
+import { formatCents } from '@/lib/money';
+import { useCartPricing } from '@/hooks/use-cart-pricing';
+import { recordCouponRedemption } from '@/lib/coupons';
+import type { AuthorizeResult, Payment, PaymentChallenge } from '@/lib/payments';
 import { toast } from 'sonner';
 
 const Checkout = () => {
-  const { cartItems, getCartTotal, clearCart } = useCart();
+  const { cartItems, clearCart } = useCart();
+  const { currentUser } = useAuth();
+  const createOrder = useCreateOrder();
+  const paymentProvider = usePaymentProvider();
   const navigate = useNavigate();
-  
-  const [formData, setFormData] = useState({
-    firstName: '',
-    lastName: '',
-    email: '',
-    phone: '',
-    address: '',
-    city: '',
-    state: '',
-    zipCode: '',
-    country: '',
-    paymentMethod: 'card',
-    cardNumber: '',
-    expiryDate: '',
-    cvv: '',
-    nameOnCard: '',
+  const [isPaying, setIsPaying] = useState(false);
+  const [pendingChallenge, setPendingChallenge] = useState<{
+    challenge: PaymentChallenge;
+    values: CheckoutFormValues;
+  } | null>(null);
+
+  const [savedProgress] = useState(loadCheckoutProgress);
+  const [stepIndex, setStepIndex] = useState(savedProgress?.stepIndex ?? 0);
+  const form = useForm<CheckoutFormValues>({
+    resolver: zodResolver(checkoutSchema),
+    defaultValues: savedProgress?.values ?? {
+      ...checkoutDefaultValues,
+      firstName: currentUser?.firstName ?? '',
+      lastName: currentUser?.lastName ?? '',
+      email: currentUser?.email ?? '',
+    },
+    mode: 'onTouched',
+  });
+
+  const [country, state, deliveryMethod] = form.watch(['country', 'state', 'deliveryMethod']);
+  const { pricing, coupon, shippingQuotes, shippingQuote, isPending: isPricingPending } = useCartPricing({
+    region: { country, state },
+    shippingMethodId: deliveryMethod,
   });
+  const lineTotals = new Map(pricing.lines.map(line => [line.lineId, line.lineTotal]));
 
-  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
-    setFormData({
-      ...formData,
-      [e.target.name]: e.target.value,
+  const currentStep = CHECKOUT_STEPS[stepIndex];
+  const isReviewStep = currentStep.id === 'review';
+
+  useEffect(() => {
+    saveCheckoutProgress(stepIndex, form.getValues());
+    const subscription = form.watch((values) => {
+      saveCheckoutProgress(stepIndex, values as CheckoutFormValues);
     });
+    return () => subscription.unsubscribe();
+  }, [form, stepIndex]);
+
+  // Fall back to the first method that serves the destination when the address changes.
+  useEffect(() => {
+    if (!shippingQuote && shippingQuotes.length > 0) {
+      form.setValue('deliveryMethod', shippingQuotes[0].methodId);
+    }
+  }, [form, shippingQuote, shippingQuotes]);
+
+  const goToStep = (index: number) => {
+    setStepIndex(index);
+    window.scrollTo({ top: 0, behavior: 'smooth' });
   };
 
-  const handleSubmit = (e: React.FormEvent) => {
-    e.preventDefault();
-    
-    // Basic validation
-    const requiredFields = ['firstName', 'lastName', 'email', 'address', 'city', 'state', 'zipCode'];
-    const missingFields = requiredFields.filter(field => !formData[field as keyof typeof formData]);
-    
-    if (missingFields.length > 0) {
-      toast.error('Please fill in all required fields');
-      return;
+  const goNext = async () => {
+    const isValid = await form.trigger(currentStep.fields, { shouldFocus: true });
+    if (isValid) {
+      goToStep(stepIndex + 1);
     }
+  };
+
+  const goBack = () => {
+    goToStep(Math.max(0, stepIndex - 1));
+  };
+
+  const editStep = (step: CheckoutStepId) => {
+    goToStep(getStepIndex(step));
+  };
+
+  const placeOrder = async (values: CheckoutFormValues, authorization: Payment) => {
+    const appliedCoupon = coupon?.status === 'applied' ? coupon.coupon.code : undefined;
+    const payment = await paymentProvider.capture(authorization.id);
 
-    // Simulate order processing
+    let order;
+    try {
+      order = await createOrder.mutateAsync({
+        userId: currentUser?.id ?? null,
+        email: values.email,
+        phone: values.phone,
+        cartItems,
+        shippingAddress: {
+          firstName: values.firstName,
+          lastName: values.lastName,
+          address: values.address,
+          city: values.city,
+          state: values.state,
+          zipCode: values.zipCode,
+          country: values.country,
+        },
+        shippingMethod: {
+          id: shippingQuote.methodId,
+          label: shippingQuote.label,
+          estimatedDelivery: shippingQuote.estimatedDelivery,
+        },
+        paymentMethod: values.paymentMethod,
+        payment: {
+          provider: payment.provider,
+          transactionId: payment.id,
+          status: payment.status,
+          instrument: payment.instrument,
+        },
+        couponCode: appliedCoupon,
+        totals: {
+          subtotal: pricing.subtotal,
+          discounts: pricing.discounts,
+          shipping: pricing.shipping,
+          tax: pricing.tax,
+          total: pricing.total,
+        },
+      });
+    } catch (error) {
+      // Don't keep the shopper's money for an order that doesn't exist.
+      await paymentProvider.refund(payment.id);
+      throw error;
+    }
+
+    if (appliedCoupon) {
+      recordCouponRedemption(appliedCoupon);
+    }
     toast.success('Order placed successfully!');
+    clearCheckoutProgress();
+    navigate(`/order/${order.id}/confirmation`);
     clearCart();
-    navigate('/order-success');
+  };
+
+  const handlePaymentResult = async (result: AuthorizeResult, values: CheckoutFormValues) => {
+    if (result.status === 'challenge_required') {
+      setPendingChallenge({ challenge: result.challenge, values });
+      return;
+    }
+
+    if (result.status === 'declined') {
+      toast.error(result.message);
+      if (values.paymentMethod === 'card') {
+        form.setValue('cvv', '');
+        editStep('payment');
+        form.setError('cardNumber', { message: result.message });
+      }
+      return;
+    }
+
+    await placeOrder(values, result.payment);
+  };
+
+  const processPayment = async (pay: () => Promise<AuthorizeResult>, values: CheckoutFormValues) => {
+    setIsPaying(true);
+    try {
+      await handlePaymentResult(await pay(), values);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'We could not place your order');
+    } finally {
+      setIsPaying(false);
+    }
+  };
+
+  const onSubmit = async (values: CheckoutFormValues) => {
+    if (!shippingQuote) {
+      toast.error('Please choose a delivery method');
+      editStep('delivery');
+      return;
+    }
+
+    await processPayment(
+      () =>
+        paymentProvider.authorize({
+          amount: pricing.total,
+          currency: 'USD',
+          email: values.email,
+          method: values.paymentMethod,
+          card: values.paymentMethod === 'card'
+            ? {
+                number: values.cardNumber,
+                expiry: values.expiryDate,
+                cvv: values.cvv,
+                name: values.nameOnCard,
+              }
+            : undefined,
+        }),
+      values
+    );
+  };
+
+  const submitChallenge = (code: string) => {
+    const { challenge, values } = pendingChallenge;
+    setPendingChallenge(null);
+    processPayment(() => paymentProvider.completeChallenge(challenge.paymentId, code), values);
+  };
+
+  const cancelChallenge = () => {
+    setPendingChallenge(null);
+    toast.error('Payment verification was cancelled');
+  };
+
+  // Errors on the review step belong to an earlier step; send the shopper back to it.
+  const onInvalid = (errors: Partial<Record<keyof CheckoutFormValues, unknown>>) => {
+    const firstInvalid = CHECKOUT_STEPS.findIndex(step =>
+      step.fields.some(field => field in errors)
+    );
+    if (firstInvalid !== -1) {
+      goToStep(firstInvalid);
+    }
+    toast.error('Please fix the highlighted fields');
+  };
+
+  const handleFormSubmit = (e: React.FormEvent) => {
+    if (isReviewStep) {
+      form.handleSubmit(onSubmit, onInvalid)(e);
+    } else {
+      e.preventDefault();
+      goNext();
+    }
   };
 
   if (cartItems.length === 0) {
@@ -66,215 +262,45 @@ const Checkout = () => {
 
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
           {/* Checkout Form */}
-          <div className="bg-white rounded-lg shadow-sm p-6 border border-gray-100">
-            <form onSubmit={handleSubmit} className="space-y-6">
-              {/* Personal Information */}
-              <div>
-                <h2 className="text-xl font-semibold text-black mb-4">Personal Information</h2>
-                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                  <div>
-                    <label className="block text-sm font-medium text-gray-700 mb-2">
-                      First Name *
-                    </label>
-                    <input
-                      type="text"
-                      name="firstName"
-                      value={formData.firstName}
-                      onChange={handleInputChange}
-                      className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-                      required
-                    />
-                  </div>
-                  <div>
-                    <label className="block text-sm font-medium text-gray-700 mb-2">
-                      Last Name *
-                    </label>
-                    <input
-                      type="text"
-                      name="lastName"
-                      value={formData.lastName}
-                      onChange={handleInputChange}
-                      className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-                      required
-                    />
-                  </div>
-                </div>
-                <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mt-4">
-                  <div>
-                    <label className="block text-sm font-medium text-gray-700 mb-2">
-                      Email *
-                    </label>
-                    <input
-                      type="email"
-                      name="email"
-                      value={formData.email}
-                      onChange={handleInputChange}
-                      className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-                      required
-                    />
-                  </div>
-                  <div>
-                    <label className="block text-sm font-medium text-gray-700 mb-2">
-                      Phone
-                    </label>
-                    <input
-                      type="tel"
-                      name="phone"
-                      value={formData.phone}
-                      onChange={handleInputChange}
-                      className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-                    />
-                  </div>
-                </div>
-              </div>
-
-              {/* Shipping Address */}
-              <div>
-                <h2 className="text-xl font-semibold text-black mb-4">Shipping Address</h2>
-                <div className="space-y-4">
-                  <div>
-                    <label className="block text-sm font-medium text-gray-700 mb-2">
-                      Address *
-                    </label>
-                    <input
-                      type="text"
-                      name="address"
-                      value={formData.address}
-                      onChange={handleInputChange}
-                      className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-                      required
-                    />
-                  </div>
-                  <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-                    <div>
-                      <label className="block text-sm font-medium text-gray-700 mb-2">
-                        City *
-                      </label>
-                      <input
-                        type="text"
-                        name="city"
-                        value={formData.city}
-                        onChange={handleInputChange}
-                        className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-                        required
-                      />
-                    </div>
-                    <div>
-                      <label className="block text-sm font-medium text-gray-700 mb-2">
-                        State *
-                      </label>
-                      <input
-                        type="text"
-                        name="state"
-                        value={formData.state}
-                        onChange={handleInputChange}
-                        className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-                        required
-                      />
-                    </div>
-                    <div>
-                      <label className="block text-sm font-medium text-gray-700 mb-2">
-                        ZIP Code *
-                      </label>
-                      <input
-                        type="text"
-                        name="zipCode"
-                        value={formData.zipCode}
-                        onChange={handleInputChange}
-                        className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-                        required
-                      />
-                    </div>
-                  </div>
-                </div>
-              </div>
-
-              {/* Payment Information */}
-              <div>
-                <h2 className="text-xl font-semibold text-black mb-4">Payment Information</h2>
-                <div className="space-y-4">
-                  <div>
-                    <label className="block text-sm font-medium text-gray-700 mb-2">
-                      Payment Method
-                    </label>
-                    <select
-                      name="paymentMethod"
-                      value={formData.paymentMethod}
-                      onChange={handleInputChange}
-                      className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          <div className="bg-white rounded-lg shadow-sm p-6 border border-gray-100 h-fit">
+            <CheckoutStepper currentIndex={stepIndex} onSelect={goToStep} />
+
+            <Form {...form}>
+              <form onSubmit={handleFormSubmit} className="space-y-6" noValidate>
+                {currentStep.id === 'contact' && <ContactStep />}
+                {currentStep.id === 'shipping' && <ShippingStep />}
+                {currentStep.id === 'delivery' && <DeliveryStep quotes={shippingQuotes} />}
+                {currentStep.id === 'payment' && <PaymentStep />}
+                {currentStep.id === 'review' && <ReviewStep shippingQuote={shippingQuote} onEdit={editStep} />}
+
+                <div className="flex gap-4">
+                  {stepIndex > 0 && (
+                    <button
+                      type="button"
+                      onClick={goBack}
+                      className="flex-1 border-2 border-gray-300 text-gray-700 py-4 rounded-lg font-semibold hover:bg-gray-50 transition-colors"
                     >
-                      <option value="card">Credit/Debit Card</option>
-                      <option value="paypal">PayPal</option>
-                    </select>
-                  </div>
-                  
-                  {formData.paymentMethod === 'card' && (
-                    <>
-                      <div>
-                        <label className="block text-sm font-medium text-gray-700 mb-2">
-                          Card Number
-                        </label>
-                        <input
-                          type="text"
-                          name="cardNumber"
-                          value={formData.cardNumber}
-                          onChange={handleInputChange}
-                          placeholder="1234 5678 9012 3456"
-                          className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-                        />
-                      </div>
-                      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-                        <div>
-                          <label className="block text-sm font-medium text-gray-700 mb-2">
-                            Expiry Date
-                          </label>
-                          <input
-                            type="text"
-                            name="expiryDate"
-                            value={formData.expiryDate}
-                            onChange={handleInputChange}
-                            placeholder="MM/YY"
-                            className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-                          />
-                        </div>
-                        <div>
-                          <label className="block text-sm font-medium text-gray-700 mb-2">
-                            CVV
-                          </label>
-                          <input
-                            type="text"
-                            name="cvv"
-                            value={formData.cvv}
-                            onChange={handleInputChange}
-                            placeholder="123"
-                            className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-                          />
-                        </div>
-                        <div>
-                          <label className="block text-sm font-medium text-gray-700 mb-2">
-                            Name on Card
-                          </label>
-                          <input
-                            type="text"
-                            name="nameOnCard"
-                            value={formData.nameOnCard}
-                            onChange={handleInputChange}
-                            className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-                          />
-                        </div>
-                      </div>
-                    </>
+                      Back
+                    </button>
                   )}
+                  <button
+                    type="submit"
+                    disabled={isPaying || (isReviewStep && isPricingPending)}
+                    className="flex-1 bg-black text-white py-4 rounded-lg font-semibold hover:bg-gray-800 transition-colors disabled:opacity-60"
+                  >
+                    {isReviewStep
+                      ? isPaying ? 'Processing Payment...' : 'Place Order'
+                      : `Continue to ${CHECKOUT_STEPS[stepIndex + 1].title}`}
+                  </button>
                 </div>
-              </div>
-
-              <button
-                type="submit"
-                className="w-full bg-black text-white py-4 rounded-lg font-semibold hover:bg-gray-800 transition-colors"
-              >
-                Place Order
-              </button>
-            </form>
+              </form>
+            </Form>
+
+            <PaymentChallengeDialog
+              challenge={pendingChallenge?.challenge ?? null}
+              onSubmit={submitChallenge}
+              onCancel={cancelChallenge}
+            />
           </div>
 
           {/* Order Summary */}
@@ -282,8 +308,8 @@ const Checkout = () => {
             <h2 className="text-xl font-bold text-black mb-6">Order Summary</h2>
             
             <div className="space-y-4 mb-6">
-              {cartItems.map((item, index) => (
-                <div key={index} className="flex items-center space-x-4">
+              {cartItems.map((item) => (
+                <div key={item.lineId} className="flex items-center space-x-4">
                   <img
                     src={item.image}
                     alt={item.name}
@@ -295,30 +321,12 @@ const Checkout = () => {
                       {item.size} | {item.color} | Qty: {item.quantity}
                     </p>
                   </div>
-                  <p className="font-semibold">${(item.price * item.quantity).toFixed(2)}</p>
+                  <p className="font-semibold">{formatCents(lineTotals.get(item.lineId) ?? 0)}</p>
                 </div>
               ))}
             </div>
 
-            <div className="space-y-3 mb-6">
-              <div className="flex justify-between">
-                <span className="text-gray-600">Subtotal</span>
-                <span className="font-semibold">${getCartTotal().toFixed(2)}</span>
-              </div>
-              <div className="flex justify-between">
-                <span className="text-gray-600">Shipping</span>
-                <span className="font-semibold">Free</span>
-              </div>
-              <div className="flex justify-between">
-                <span className="text-gray-600">Tax</span>
-                <span className="font-semibold">${(getCartTotal() * 0.1).toFixed(2)}</span>
-              </div>
-              <hr className="my-4" />
-              <div className="flex justify-between text-lg font-bold">
-                <span>Total</span>
-                <span>${(getCartTotal() * 1.1).toFixed(2)}</span>
-              </div>
-            </div>
+            <PriceSummary {...pricing} />
           </div>
         </div>
       </div>
@@ -4,6 +4,7 @@ import { Link } from 'react-router-dom';
 import Navbar from '../components/Navbar';
 import Hero from '../components/Hero';
 import FeaturedProducts from '../components/FeaturedProducts';
+import HomeRecommendations from '../components/recommendations/HomeRecommendations';
 import Footer from '../components/Footer';
 
 const Index = () => {
@@ -12,6 +13,7 @@ const Index = () => {
       <Navbar />
       <Hero />
       <FeaturedProducts />
+      <HomeRecommendations />
       <Footer />
     </div>
   );
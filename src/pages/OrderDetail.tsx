@@ -0,0 +1,157 @@
+import React from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { format } from 'date-fns';
+import Navbar from '../components/Navbar';
+import Footer from '../components/Footer';
+import LoadError from '../components/LoadError';
+import OrderStatusBadge from '../components/OrderStatusBadge';
+import OrderSummaryDetails from '../components/OrderSummaryDetails';
+import AddressBlock from '../components/AddressBlock';
+import DeliveryEstimate from '../components/checkout/DeliveryEstimate';
+import { Skeleton } from '@/components/ui/skeleton';
+import { useAuth } from '../context/AuthContext';
+import { useOrder } from '@/hooks/use-orders';
+import { ORDER_STATUS_FLOW, ORDER_STATUS_LABELS, type Order } from '@/lib/orders';
+import { formatCents } from '@/lib/money';
+import { describeInstrument } from '@/lib/payments';
+
+const PAYMENT_METHOD_LABELS: Record<string, string> = {
+  card: 'Credit/Debit Card',
+  paypal: 'PayPal',
+};
+
+const StatusTimeline: React.FC<{ order: Order }> = ({ order }) => {
+  const reachedAt = new Map(order.statusHistory.map(change => [change.status, change.at]));
+  const steps = order.status === 'cancelled'
+    ? order.statusHistory.map(change => change.status)
+    : ORDER_STATUS_FLOW;
+
+  return (
+    <ol className="space-y-4">
+      {steps.map((status) => {
+        const at = reachedAt.get(status);
+        return (
+          <li key={status} className="flex items-start">
+            <div
+              className={`w-3 h-3 rounded-full mt-1.5 mr-4 ${
+                at ? (status === 'cancelled' ? 'bg-red-600' : 'bg-blue-600') : 'bg-gray-300'
+              }`}
+            />
+            <div>
+              <p className={`font-medium ${at ? 'text-black' : 'text-gray-400'}`}>
+                {ORDER_STATUS_LABELS[status]}
+              </p>
+              {at && (
+                <p className="text-sm text-gray-600">{format(new Date(at), 'MMM d, yyyy h:mm a')}</p>
+              )}
+            </div>
+          </li>
+        );
+      })}
+    </ol>
+  );
+};
+
+const OrderDetail = () => {
+  const { id } = useParams<{ id: string }>();
+  const { currentUser } = useAuth();
+  const { data: order, isPending, isError, refetch } = useOrder(id);
+
+  const isOwnOrder = order && order.userId === currentUser?.id;
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Navbar />
+
+      <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-16">
+        <Link to="/account/orders" className="text-blue-600 hover:text-blue-700 font-medium mb-8 inline-block">
+          ← Back to Orders
+        </Link>
+
+        {isPending ? (
+          <Skeleton className="h-96 rounded-lg" />
+        ) : isError ? (
+          <LoadError message="We couldn't load this order." onRetry={() => refetch()} />
+        ) : !isOwnOrder ? (
+          <div className="bg-white rounded-lg shadow-sm p-12 text-center border border-gray-100">
+            <h1 className="text-2xl font-bold text-black">Order Not Found</h1>
+          </div>
+        ) : (
+          <>
+            <div className="flex flex-wrap items-center justify-between gap-4 mb-8">
+              <div>
+                <h1 className="text-3xl font-bold text-black">Order {order.id}</h1>
+                <p className="text-gray-600">
+                  Placed on {format(new Date(order.createdAt), 'MMMM d, yyyy')}
+                </p>
+              </div>
+              <OrderStatusBadge status={order.status} />
+            </div>
+
+            <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+              <div className="lg:col-span-2 space-y-8">
+                <div className="bg-white rounded-lg shadow-sm p-6 border border-gray-100">
+                  <h2 className="text-xl font-bold text-black mb-6">Items</h2>
+                  <OrderSummaryDetails order={order} />
+                </div>
+
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
+                  <div className="bg-white rounded-lg shadow-sm p-6 border border-gray-100">
+                    <h2 className="font-semibold text-black mb-2">Shipping Address</h2>
+                    <AddressBlock address={order.shippingAddress} />
+                    {order.shippingMethod && (
+                      <p className="text-sm text-gray-600 mt-4">
+                        {order.shippingMethod.label}
+                        <br />
+                        <DeliveryEstimate {...order.shippingMethod.estimatedDelivery} prefix="Estimated" />
+                      </p>
+                    )}
+                  </div>
+                  <div className="bg-white rounded-lg shadow-sm p-6 border border-gray-100">
+                    <h2 className="font-semibold text-black mb-2">Billing Address</h2>
+                    <AddressBlock address={order.billingAddress} />
+                  </div>
+                </div>
+              </div>
+
+              <div className="space-y-8">
+                <div className="bg-white rounded-lg shadow-sm p-6 border border-gray-100">
+                  <h2 className="font-semibold text-black mb-4">Status</h2>
+                  <StatusTimeline order={order} />
+                </div>
+
+                <div className="bg-white rounded-lg shadow-sm p-6 border border-gray-100">
+                  <h2 className="font-semibold text-black mb-4">Payment</h2>
+                  <div className="space-y-2">
+                    <div className="flex justify-between">
+                      <span className="text-gray-600">Method</span>
+                      <span className="font-medium">
+                        {order.payment
+                          ? describeInstrument(order.payment.instrument)
+                          : PAYMENT_METHOD_LABELS[order.paymentMethod] ?? order.paymentMethod}
+                      </span>
+                    </div>
+                    <div className="flex justify-between">
+                      <span className="text-gray-600">Amount charged</span>
+                      <span className="font-medium">{formatCents(order.totals.total)}</span>
+                    </div>
+                    {order.payment && (
+                      <div className="flex justify-between">
+                        <span className="text-gray-600">Transaction</span>
+                        <span className="font-mono text-sm">{order.payment.transactionId}</span>
+                      </div>
+                    )}
+                  </div>
+                </div>
+              </div>
+            </div>
+          </>
+        )}
+      </div>
+
+      <Footer />
+    </div>
+  );
+};
+
+export default OrderDetail;
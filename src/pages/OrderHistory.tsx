@@ -0,0 +1,77 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { format } from 'date-fns';
+import Navbar from '../components/Navbar';
+import Footer from '../components/Footer';
+import LoadError from '../components/LoadError';
+import OrderStatusBadge from '../components/OrderStatusBadge';
+import { Skeleton } from '@/components/ui/skeleton';
+import { useAuth } from '../context/AuthContext';
+import { useUserOrders } from '@/hooks/use-orders';
+import { formatCents } from '@/lib/money';
+
+const OrderHistory = () => {
+  const { currentUser } = useAuth();
+  const { data: orders = [], isPending, isError, refetch } = useUserOrders(currentUser?.id);
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Navbar />
+
+      <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-16">
+        <Link to="/account" className="text-blue-600 hover:text-blue-700 font-medium mb-8 inline-block">
+          ← Back to My Account
+        </Link>
+        <h1 className="text-3xl font-bold text-black mb-8">Order History</h1>
+
+        {isPending ? (
+          <div className="space-y-4">
+            {Array.from({ length: 3 }, (_, index) => (
+              <Skeleton key={index} className="h-24 rounded-lg" />
+            ))}
+          </div>
+        ) : isError ? (
+          <LoadError message="We couldn't load your orders." onRetry={() => refetch()} />
+        ) : orders.length === 0 ? (
+          <div className="bg-white rounded-lg shadow-sm p-12 text-center border border-gray-100">
+            <p className="text-xl text-gray-600 mb-8">You haven't placed any orders yet</p>
+            <Link
+              to="/products"
+              className="bg-blue-600 text-white px-8 py-4 rounded-lg font-semibold hover:bg-blue-700 transition-colors inline-block"
+            >
+              Start Shopping
+            </Link>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {orders.map((order) => {
+              const itemCount = order.items.reduce((total, item) => total + item.quantity, 0);
+              return (
+                <Link
+                  key={order.id}
+                  to={`/account/orders/${order.id}`}
+                  className="block bg-white rounded-lg shadow-sm p-6 border border-gray-100 hover:shadow-md transition-shadow"
+                >
+                  <div className="flex flex-wrap items-center justify-between gap-4">
+                    <div>
+                      <p className="font-semibold text-black">{order.id}</p>
+                      <p className="text-sm text-gray-600">
+                        {format(new Date(order.createdAt), 'MMM d, yyyy')} · {itemCount} {itemCount === 1 ? 'item' : 'items'}
+                      </p>
+                    </div>
+                    <OrderStatusBadge status={order.status} />
+                    <p className="font-bold text-lg">{formatCents(order.totals.total)}</p>
+                  </div>
+                </Link>
+              );
+            })}
+          </div>
+        )}
+      </div>
+
+      <Footer />
+    </div>
+  );
+};
+
+export default OrderHistory;
@@ -1,10 +1,42 @@
 
 import React from 'react';
-import { Link } from 'react-router-dom';
+import { Link, useParams } from 'react-router-dom';
 import Navbar from '../components/Navbar';
 import Footer from '../components/Footer';
+import LoadError from '../components/LoadError';
+import OrderSummaryDetails from '../components/OrderSummaryDetails';
+import AddressBlock from '../components/AddressBlock';
+import DeliveryEstimate from '../components/checkout/DeliveryEstimate';
+import { Skeleton } from '@/components/ui/skeleton';
+import { useOrder } from '@/hooks/use-orders';
 
 const OrderSuccess = () => {
+  const { orderId } = useParams<{ orderId: string }>();
+  const { data: order, isPending, isError, refetch } = useOrder(orderId);
+
+  if (isPending || isError || !order) {
+    return (
+      <div className="min-h-screen bg-gray-50">
+        <Navbar />
+        <div className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8 py-16">
+          {isPending ? (
+            <Skeleton className="h-96 rounded-lg" />
+          ) : isError ? (
+            <LoadError message="We couldn't load your order." onRetry={() => refetch()} />
+          ) : (
+            <div className="bg-white rounded-lg shadow-sm p-12 text-center border border-gray-100">
+              <h1 className="text-2xl font-bold text-black mb-4">Order Not Found</h1>
+              <Link to="/products" className="text-blue-600 hover:text-blue-700 font-medium">
+                Continue Shopping
+              </Link>
+            </div>
+          )}
+        </div>
+        <Footer />
+      </div>
+    );
+  }
+
   return (
     <div className="min-h-screen bg-gray-50">
       <Navbar />
@@ -18,16 +50,34 @@ const OrderSuccess = () => {
           </div>
           
           <h1 className="text-3xl font-bold text-black mb-4">Order Confirmed!</h1>
-          <p className="text-xl text-gray-600 mb-8">
+          <p className="text-xl text-gray-600 mb-2">
             Thank you for your purchase. Your order has been successfully placed.
           </p>
+          <p className="text-gray-600 mb-8">
+            Order number <span className="font-semibold text-black">{order.id}</span>
+          </p>
+
+          <div className="text-left border border-gray-100 rounded-lg p-6 mb-8">
+            <div className="mb-6">
+              <OrderSummaryDetails order={order} />
+            </div>
+
+            <h2 className="font-semibold text-black mb-2">Shipping To</h2>
+            <AddressBlock address={order.shippingAddress} />
+            {order.shippingMethod && (
+              <p className="text-gray-600 mt-4">
+                {order.shippingMethod.label} ·{' '}
+                <DeliveryEstimate {...order.shippingMethod.estimatedDelivery} prefix="estimated" />
+              </p>
+            )}
+          </div>
           
           <div className="bg-gray-50 rounded-lg p-6 mb-8">
             <h2 className="text-lg font-semibold text-black mb-4">What's Next?</h2>
             <div className="space-y-3 text-left">
               <div className="flex items-center">
                 <div className="w-2 h-2 bg-blue-600 rounded-full mr-3"></div>
-                <span className="text-gray-700">Order confirmation will be sent to your email</span>
+                <span className="text-gray-700">Order confirmation will be sent to {order.email}</span>
               </div>
               <div className="flex items-center">
                 <div className="w-2 h-2 bg-blue-600 rounded-full mr-3"></div>
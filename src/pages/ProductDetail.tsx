@@ -1,21 +1,94 @@
 
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import Navbar from '../components/Navbar';
 import Footer from '../components/Footer';
-import { mockProducts } from '../utils/mockData';
+import LoadError from '../components/LoadError';
+import WishlistButton from '../components/WishlistButton';
+import StarRating from '../components/StarRating';
+import ProductGallery from '../components/gallery/ProductGallery';
+import SizeGuideDialog from '../components/sizing/SizeGuideDialog';
+import ProductReviews from '../components/reviews/ProductReviews';
+import ProductCarousel from '../components/recommendations/ProductCarousel';
+import { Skeleton } from '@/components/ui/skeleton';
+import { useProduct } from '@/hooks/use-products';
+import { useReviewSummaries } from '@/hooks/use-reviews';
 import { useCart } from '../context/CartContext';
+import {
+  findVariant,
+  getColorImage,
+  getPriceRange,
+  getProductImages,
+  getStockLabel,
+  getVariantPrice,
+  isColorAvailable,
+  isSizeAvailable,
+} from '@/lib/catalog';
+import { getCartLineId } from '@/lib/cartLine';
+import { describeRecommendation, getSizeChart, recommendSize } from '@/lib/sizing';
+import { useFitProfile } from '@/hooks/use-fit-profile';
+import { useBoughtTogether, useRecentlyViewed, useSimilarProducts } from '@/hooks/use-recommendations';
 import { toast } from 'sonner';
 
 const ProductDetail = () => {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
-  const { addToCart } = useCart();
+  const { cartItems, addToCart } = useCart();
   
-  const product = mockProducts.find(p => p.id === parseInt(id || '0'));
+  const requestedId = parseInt(id || '0');
+  const { data: product, isPending, isError, refetch } = useProduct(requestedId);
   const [selectedSize, setSelectedSize] = useState('');
   const [selectedColor, setSelectedColor] = useState('');
   const [quantity, setQuantity] = useState(1);
+  const { data: summaries } = useReviewSummaries();
+  const { profile: fitProfile, updateProfile: updateFitProfile } = useFitProfile();
+  const productId = product?.id;
+  const { products: recentlyViewed, recordView } = useRecentlyViewed(productId ? [productId] : []);
+  const similarProducts = useSimilarProducts(product);
+  const boughtTogether = useBoughtTogether(productId ? [productId] : []);
+
+  useEffect(() => {
+    if (!productId) return;
+    recordView(productId);
+    // Recommendations link product to product, so start each one fresh and at the top.
+    setSelectedSize('');
+    setSelectedColor('');
+    setQuantity(1);
+    window.scrollTo({ top: 0 });
+  }, [productId, recordView]);
+
+  // A non-numeric id never fetches, so it would stay pending forever.
+  if (isPending && !Number.isNaN(requestedId)) {
+    return (
+      <div className="min-h-screen bg-white">
+        <Navbar />
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-12 mt-14">
+            <Skeleton className="aspect-square rounded-2xl" />
+            <div className="space-y-4">
+              <Skeleton className="h-9 w-3/4" />
+              <Skeleton className="h-5 w-1/4" />
+              <Skeleton className="h-10 w-1/3" />
+              <Skeleton className="h-24 w-full" />
+            </div>
+          </div>
+        </div>
+        <Footer />
+      </div>
+    );
+  }
+
+  if (isError) {
+    return (
+      <div className="min-h-screen bg-white">
+        <Navbar />
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-16">
+          <LoadError message="We couldn't load this product." onRetry={() => refetch()} />
+        </div>
+        <Footer />
+      </div>
+    );
+  }
 
   if (!product) {
     return (
@@ -35,6 +108,29 @@ const ProductDetail = () => {
     );
   }
 
+  const selectedVariant = selectedSize && selectedColor
+    ? findVariant(product, selectedSize, selectedColor)
+    : undefined;
+  const [minPrice, maxPrice] = getPriceRange(product);
+  const unitPrice = getVariantPrice(product, selectedVariant);
+  const sizeRecommendation = fitProfile ? recommendSize(getSizeChart(product.category), product.sizes, fitProfile) : null;
+  const quantityInCart = selectedVariant
+    ? cartItems.find(item => item.lineId === getCartLineId(product.id, selectedSize, selectedColor))?.quantity ?? 0
+    : 0;
+  const available = selectedVariant ? Math.max(0, selectedVariant.stock - quantityInCart) : undefined;
+
+  // Shared by the size buttons and the size guide, so both skip sizes that are out of stock.
+  const selectSize = (size: string) => {
+    if (!isSizeAvailable(product, size, selectedColor)) return;
+    setSelectedSize(selectedSize === size ? '' : size);
+    setQuantity(1);
+  };
+
+  const selectColor = (color: string) => {
+    setSelectedColor(selectedColor === color ? '' : color);
+    setQuantity(1);
+  };
+
   const handleAddToCart = () => {
     if (!selectedSize) {
       toast.error('Please select a size');
@@ -44,20 +140,36 @@ const ProductDetail = () => {
       toast.error('Please select a color');
       return;
     }
+    if (!selectedVariant || selectedVariant.stock === 0) {
+      toast.error(`${selectedColor} ${selectedSize} is sold out`);
+      return;
+    }
+    if (quantity > available) {
+      toast.error(
+        available === 0
+          ? 'You already have all available stock in your cart'
+          : `Only ${available} more available`
+      );
+      return;
+    }
 
     addToCart({
       id: product.id,
+      sku: selectedVariant.sku,
       name: product.name,
-      price: product.price,
-      image: product.image,
+      price: unitPrice,
+      image: getColorImage(product, selectedColor),
       size: selectedSize,
       color: selectedColor,
       quantity: quantity,
+      maxQuantity: selectedVariant.stock,
     });
 
     toast.success(`${product.name} added to cart!`);
   };
 
+  const availabilityLabel = getStockLabel(product, selectedVariant);
+
   return (
     <div className="min-h-screen bg-white">
       <Navbar />
@@ -71,12 +183,13 @@ const ProductDetail = () => {
         </button>
 
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-12">
-          {/* Product Image */}
+          {/* Product Images */}
           <div>
-            <img
-              src={product.image}
-              alt={product.name}
-              className="w-full rounded-2xl shadow-lg"
+            {/* Remounting on color change starts the new gallery at its first image. */}
+            <ProductGallery
+              key={selectedColor || 'default'}
+              images={getProductImages(product, selectedColor)}
+              title={product.name}
             />
           </div>
 
@@ -84,19 +197,38 @@ const ProductDetail = () => {
           <div>
             <h1 className="text-3xl font-bold text-black mb-4">{product.name}</h1>
             <p className="text-gray-600 mb-4">{product.category}</p>
-            <p className="text-4xl font-bold text-black mb-6">${product.price}</p>
+            {summaries?.[product.id] && (
+              <a href="#reviews" className="flex items-center text-sm text-gray-600 hover:text-blue-600 mb-4">
+                <StarRating rating={summaries[product.id].average} className="mr-2" />
+                {summaries[product.id].average.toFixed(1)} ({summaries[product.id].count} review{summaries[product.id].count === 1 ? '' : 's'})
+              </a>
+            )}
+            <p className="text-4xl font-bold text-black mb-6">
+              {selectedVariant || minPrice === maxPrice ? `$${unitPrice}` : `From $${minPrice}`}
+            </p>
             
             <p className="text-gray-700 mb-8 leading-relaxed">{product.description}</p>
 
             {/* Size Selection */}
             <div className="mb-6">
-              <label className="block text-sm font-medium text-gray-700 mb-3">Size</label>
+              <div className="flex justify-between items-center mb-3">
+                <label className="block text-sm font-medium text-gray-700">Size</label>
+                <SizeGuideDialog
+                  category={product.category}
+                  sizes={product.sizes}
+                  selectedSize={selectedSize}
+                  profile={fitProfile}
+                  onProfileChange={updateFitProfile}
+                  onSelectSize={selectSize}
+                />
+              </div>
               <div className="flex flex-wrap gap-3">
                 {product.sizes.map((size) => (
                   <button
                     key={size}
-                    onClick={() => setSelectedSize(size)}
-                    className={`px-4 py-2 border rounded-lg font-medium transition-colors ${
+                    onClick={() => selectSize(size)}
+                    disabled={!isSizeAvailable(product, size, selectedColor)}
+                    className={`px-4 py-2 border rounded-lg font-medium transition-colors disabled:border-gray-200 disabled:text-gray-300 disabled:line-through disabled:cursor-not-allowed ${
                       selectedSize === size
                         ? 'border-blue-600 bg-blue-600 text-white'
                         : 'border-gray-300 text-gray-700 hover:border-blue-600'
@@ -106,6 +238,9 @@ const ProductDetail = () => {
                   </button>
                 ))}
               </div>
+              {sizeRecommendation && (
+                <p className="text-sm text-gray-600 mt-3">{describeRecommendation(sizeRecommendation)}</p>
+              )}
             </div>
 
             {/* Color Selection */}
@@ -115,8 +250,9 @@ const ProductDetail = () => {
                 {product.colors.map((color) => (
                   <button
                     key={color}
-                    onClick={() => setSelectedColor(color)}
-                    className={`px-4 py-2 border rounded-lg font-medium transition-colors ${
+                    onClick={() => selectColor(color)}
+                    disabled={!isColorAvailable(product, color, selectedSize)}
+                    className={`px-4 py-2 border rounded-lg font-medium transition-colors disabled:border-gray-200 disabled:text-gray-300 disabled:line-through disabled:cursor-not-allowed ${
                       selectedColor === color
                         ? 'border-blue-600 bg-blue-600 text-white'
                         : 'border-gray-300 text-gray-700 hover:border-blue-600'
@@ -141,7 +277,8 @@ const ProductDetail = () => {
                 <span className="text-xl font-semibold w-12 text-center">{quantity}</span>
                 <button
                   onClick={() => setQuantity(quantity + 1)}
-                  className="w-10 h-10 border border-gray-300 rounded-lg flex items-center justify-center hover:bg-gray-50"
+                  disabled={available !== undefined && quantity >= available}
+                  className="w-10 h-10 border border-gray-300 rounded-lg flex items-center justify-center hover:bg-gray-50 disabled:opacity-40 disabled:cursor-not-allowed"
                 >
                   +
                 </button>
@@ -149,22 +286,52 @@ const ProductDetail = () => {
             </div>
 
             {/* Add to Cart Button */}
-            <button
-              onClick={handleAddToCart}
-              className="w-full bg-black text-white py-4 rounded-lg font-semibold hover:bg-gray-800 transition-colors text-lg"
-            >
-              Add to Cart - ${(product.price * quantity).toFixed(2)}
-            </button>
+            <div className="flex gap-4">
+              <button
+                onClick={handleAddToCart}
+                className="flex-1 bg-black text-white py-4 rounded-lg font-semibold hover:bg-gray-800 transition-colors text-lg"
+              >
+                Add to Cart - ${(unitPrice * quantity).toFixed(2)}
+              </button>
+              <WishlistButton
+                item={{
+                  productId: product.id,
+                  name: product.name,
+                  price: unitPrice,
+                  image: getColorImage(product, selectedVariant ? selectedColor : undefined),
+                  size: selectedVariant ? selectedSize : '',
+                  color: selectedVariant ? selectedColor : '',
+                  sku: selectedVariant?.sku ?? '',
+                  maxQuantity: selectedVariant?.stock,
+                }}
+                className="w-16 h-16 shrink-0"
+              />
+            </div>
 
             {/* Product Info */}
             <div className="mt-8 space-y-4">
               <div className="flex items-center text-sm text-gray-600">
                 <span className="font-medium">Availability:</span>
-                <span className="ml-2">{product.inStock ? 'In Stock' : 'Out of Stock'}</span>
+                <span className="ml-2">{availabilityLabel}</span>
               </div>
+              {selectedVariant && (
+                <div className="flex items-center text-sm text-gray-600">
+                  <span className="font-medium">SKU:</span>
+                  <span className="ml-2">{selectedVariant.sku}</span>
+                </div>
+              )}
             </div>
           </div>
         </div>
+
+        <ProductCarousel title="Frequently Bought Together" products={boughtTogether} className="mt-16" />
+        <ProductCarousel title="You May Also Like" products={similarProducts} className="mt-16" />
+
+        <div id="reviews">
+          <ProductReviews productId={product.id} />
+        </div>
+
+        <ProductCarousel title="Recently Viewed" products={recentlyViewed} className="mt-16" />
       </div>
 
       <Footer />
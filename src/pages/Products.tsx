@@ -1,71 +1,62 @@
 
-import React, { useState } from 'react';
+import React from 'react';
+import { useSearchParams } from 'react-router-dom';
 import Navbar from '../components/Navbar';
 import Footer from '../components/Footer';
 import ProductCard from '../components/ProductCard';
 import FilterPanel from '../components/FilterPanel';
-import { mockProducts } from '../utils/mockData';
+import LoadError from '../components/LoadError';
+import ProductPagination from '../components/ProductPagination';
+import { Skeleton } from '@/components/ui/skeleton';
+import { useProducts } from '@/hooks/use-products';
+import { useReviewSummaries } from '@/hooks/use-reviews';
+import {
+  deriveProductListing,
+  parseListingParams,
+  toListingParams,
+  type ProductFilters,
+  type ProductListingState,
+  type ProductSort,
+} from '@/lib/catalog';
 
 const Products = () => {
-  const [filteredProducts, setFilteredProducts] = useState(mockProducts);
-  const [sortBy, setSortBy] = useState('name');
-
-  const handleFilterChange = (filters: any) => {
-    let filtered = mockProducts;
-
-    // Filter by category
-    if (filters.category && filters.category !== 'all') {
-      filtered = filtered.filter(product => 
-        product.category.toLowerCase() === filters.category.toLowerCase()
-      );
-    }
-
-    // Filter by size
-    if (filters.size && filters.size !== 'all') {
-      filtered = filtered.filter(product => 
-        product.sizes.includes(filters.size)
-      );
-    }
-
-    // Filter by color
-    if (filters.color && filters.color !== 'all') {
-      filtered = filtered.filter(product => 
-        product.colors.some(color => 
-          color.toLowerCase().includes(filters.color.toLowerCase())
-        )
-      );
-    }
+  // The query string is the only copy of the listing state, so reloads,
+  // shared links and back/forward all land on the same view.
+  const [searchParams, setSearchParams] = useSearchParams();
+  const listing = parseListingParams(searchParams);
+  const { q, sort } = listing;
+  const { data: catalog, isPending, isError, refetch } = useProducts();
+  const { data: summaries = {} } = useReviewSummaries();
+  const ratings = Object.fromEntries(
+    Object.values(summaries).map(summary => [summary.productId, summary.average])
+  );
+  const { items: products, total, page, pageCount, facets } = deriveProductListing(catalog ?? [], listing, { ratings });
 
-    // Filter by price range
-    if (filters.priceRange) {
-      const [min, max] = filters.priceRange;
-      filtered = filtered.filter(product => 
-        product.price >= min && product.price <= max
-      );
-    }
+  const updateListing = (changes: Partial<ProductListingState>) => {
+    // Any change other than paging starts again from the first page.
+    setSearchParams(toListingParams({ ...listing, page: 1, ...changes }));
+  };
 
-    setFilteredProducts(filtered);
+  const handleFilterChange = (filters: ProductFilters) => {
+    updateListing({
+      categories: filters.categories,
+      sizes: filters.sizes,
+      colors: filters.colors,
+      priceRange: filters.priceRange,
+    });
   };
 
-  const handleSortChange = (sortOption: string) => {
-    setSortBy(sortOption);
-    let sorted = [...filteredProducts];
+  const resetFilters = () => {
+    updateListing({ categories: undefined, sizes: undefined, colors: undefined, priceRange: undefined });
+  };
 
-    switch (sortOption) {
-      case 'price-low':
-        sorted.sort((a, b) => a.price - b.price);
-        break;
-      case 'price-high':
-        sorted.sort((a, b) => b.price - a.price);
-        break;
-      case 'name':
-        sorted.sort((a, b) => a.name.localeCompare(b.name));
-        break;
-      default:
-        break;
-    }
+  const clearSearch = () => {
+    updateListing({ q: undefined, sort: sort === 'relevance' ? 'name' : sort });
+  };
 
-    setFilteredProducts(sorted);
+  const goToPage = (nextPage: number) => {
+    updateListing({ page: nextPage });
+    window.scrollTo({ top: 0, behavior: 'smooth' });
   };
 
   return (
@@ -74,14 +65,27 @@ const Products = () => {
       
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
         <div className="mb-8">
-          <h1 className="text-3xl font-bold text-black mb-4">Our Products</h1>
-          <p className="text-gray-600">Discover our complete collection of premium shirts</p>
+          <h1 className="text-3xl font-bold text-black mb-4">
+            {q ? `Results for "${q}"` : 'Our Products'}
+          </h1>
+          {q ? (
+            <button onClick={clearSearch} className="text-blue-600 hover:text-blue-700 font-medium">
+              Clear search
+            </button>
+          ) : (
+            <p className="text-gray-600">Discover our complete collection of premium shirts</p>
+          )}
         </div>
 
         <div className="flex flex-col lg:flex-row gap-8">
           {/* Filter Panel */}
           <div className="lg:w-1/4">
-            <FilterPanel onFilterChange={handleFilterChange} />
+            <FilterPanel
+              facets={facets}
+              filters={listing}
+              onFilterChange={handleFilterChange}
+              onReset={resetFilters}
+            />
           </div>
 
           {/* Products Grid */}
@@ -89,29 +93,50 @@ const Products = () => {
             {/* Sort Options */}
             <div className="flex justify-between items-center mb-6">
               <p className="text-gray-600">
-                Showing {filteredProducts.length} products
+                {pageCount > 1
+                  ? `Showing ${products.length} of ${total} products`
+                  : `Showing ${total} products`}
               </p>
               <select
-                value={sortBy}
-                onChange={(e) => handleSortChange(e.target.value)}
+                value={sort}
+                onChange={(e) => updateListing({ sort: e.target.value as ProductSort })}
                 className="border border-gray-300 rounded-lg px-4 py-2 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
               >
+                {q && <option value="relevance">Sort by Relevance</option>}
                 <option value="name">Sort by Name</option>
                 <option value="price-low">Price: Low to High</option>
                 <option value="price-high">Price: High to Low</option>
+                <option value="rating">Top Rated</option>
               </select>
             </div>
 
             {/* Products Grid */}
-            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6">
-              {filteredProducts.map((product) => (
-                <ProductCard key={product.id} product={product} />
-              ))}
-            </div>
+            {isError ? (
+              <LoadError message="We couldn't load products." onRetry={() => refetch()} />
+            ) : (
+              <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6">
+                {isPending
+                  ? Array.from({ length: 6 }, (_, index) => (
+                      <Skeleton key={index} className="aspect-[3/4] rounded-xl" />
+                    ))
+                  : products.map((product) => (
+                      <ProductCard key={product.id} product={product} />
+                    ))}
+              </div>
+            )}
+
+            {!isPending && !isError && pageCount > 1 && (
+              <ProductPagination
+                page={page}
+                pageCount={pageCount}
+                getHref={(target) => `?${toListingParams({ ...listing, page: target })}`}
+                onPageChange={goToPage}
+              />
+            )}
 
-            {filteredProducts.length === 0 && (
+            {!isPending && !isError && products.length === 0 && (
               <div className="text-center py-12">
-                <p className="text-gray-500 text-lg">No products found matching your filters.</p>
+                <p className="text-gray-500 text-lg">{q ? `No products found for "${q}".` : 'No products found matching your filters.'}</p>
               </div>
             )}
           </div>
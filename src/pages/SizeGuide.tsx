@@ -0,0 +1,62 @@
+import React, { useState } from 'react';
+import Navbar from '../components/Navbar';
+import Footer from '../components/Footer';
+import SizeChartTable from '../components/sizing/SizeChartTable';
+import UnitToggle from '../components/sizing/UnitToggle';
+import { useFitProfile } from '@/hooks/use-fit-profile';
+import {
+  FIT_STYLE_LABELS,
+  getChartSizes,
+  getSizeChart,
+  getSizeChartCategories,
+  recommendSize,
+  type MeasurementUnit,
+} from '@/lib/sizing';
+
+const SizeGuide = () => {
+  const { profile } = useFitProfile();
+  const [unit, setUnit] = useState<MeasurementUnit>(profile?.unit ?? 'cm');
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Navbar />
+
+      <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="flex justify-between items-start gap-4 mb-8">
+          <div>
+            <h1 className="text-3xl font-bold text-black mb-2">Size Guide</h1>
+            <p className="text-gray-600">
+              Measurements are of the shirt laid flat. Open the size guide on any product to get a personal recommendation.
+            </p>
+          </div>
+          <UnitToggle unit={unit} onChange={setUnit} />
+        </div>
+
+        <div className="space-y-8">
+          {getSizeChartCategories().map((category) => {
+            const chart = getSizeChart(category);
+            const recommendation = profile ? recommendSize(chart, getChartSizes(chart), profile) : null;
+            return (
+              <section key={category} className="bg-white rounded-lg shadow-sm p-6 border border-gray-100">
+                <div className="flex justify-between items-baseline mb-4">
+                  <h2 className="text-xl font-bold text-black">{category}</h2>
+                  <span className="text-sm text-gray-500">{FIT_STYLE_LABELS[chart.fit]}</span>
+                </div>
+                {recommendation && (
+                  <p className="text-sm text-gray-700 mb-2">
+                    Your size: <span className="font-semibold">{recommendation.size}</span>
+                  </p>
+                )}
+                <SizeChartTable chart={chart} unit={unit} highlightSize={recommendation?.size} />
+              </section>
+            );
+          })}
+        </div>
+      </div>
+
+      <Footer />
+    </div>
+  );
+};
+
+export default SizeGuide;
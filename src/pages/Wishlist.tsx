@@ -0,0 +1,50 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import Navbar from '../components/Navbar';
+import Footer from '../components/Footer';
+import SavedItemsList from '../components/SavedItemsList';
+import { useAuth } from '../context/AuthContext';
+import { useWishlist } from '../context/WishlistContext';
+
+const Wishlist = () => {
+  const { items } = useWishlist();
+  const { currentUser } = useAuth();
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Navbar />
+
+      <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <h1 className="text-3xl font-bold text-black mb-2">Your Wishlist</h1>
+        {!currentUser && items.length > 0 && (
+          <p className="text-gray-600 mb-8">
+            <Link to="/login" state={{ from: { pathname: '/wishlist' } }} className="text-blue-600 hover:text-blue-700 font-medium">
+              Sign in
+            </Link>{' '}
+            to keep your saved items on every device.
+          </p>
+        )}
+
+        {items.length === 0 ? (
+          <div className="bg-white rounded-lg shadow-sm p-12 text-center mt-8">
+            <p className="text-xl text-gray-600 mb-8">You haven't saved anything yet</p>
+            <Link
+              to="/products"
+              className="bg-blue-600 text-white px-8 py-4 rounded-lg font-semibold hover:bg-blue-700 transition-colors inline-block"
+            >
+              Browse Products
+            </Link>
+          </div>
+        ) : (
+          <div className="mt-8">
+            <SavedItemsList items={items} />
+          </div>
+        )}
+      </div>
+
+      <Footer />
+    </div>
+  );
+};
+
+export default Wishlist;
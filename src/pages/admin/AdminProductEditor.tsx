@@ -0,0 +1,83 @@
+import React from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import Navbar from '../../components/Navbar';
+import Footer from '../../components/Footer';
+import LoadError from '../../components/LoadError';
+import ProductForm from '../../components/admin/ProductForm';
+import { Skeleton } from '@/components/ui/skeleton';
+import { useAdminProduct, useAdminProducts, useSaveProduct } from '@/hooks/use-products';
+import { emptyProductFormValues, toProductFormValues, type ProductInput } from '@/lib/catalog';
+import { toast } from 'sonner';
+
+// Creates a product at /admin/products/new and edits one at /admin/products/:id/edit.
+const AdminProductEditor = () => {
+  const { id } = useParams<{ id: string }>();
+  const productId = id ? parseInt(id) : undefined;
+  const navigate = useNavigate();
+  const { data: products = [] } = useAdminProducts();
+  const { data: product, isPending, isError, refetch } = useAdminProduct(productId ?? NaN);
+  const saveProduct = useSaveProduct();
+  const categories = Array.from(new Set(products.map(candidate => candidate.category))).sort();
+
+  const handleSubmit = async (input: ProductInput) => {
+    try {
+      const saved = await saveProduct.mutateAsync({ id: productId, input });
+      toast.success(productId === undefined ? `${saved.name} created` : `${saved.name} saved`);
+      navigate('/admin/products');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'We could not save the product');
+    }
+  };
+
+  const renderBody = () => {
+    if (productId === undefined) {
+      return (
+        <ProductForm
+          defaultValues={emptyProductFormValues}
+          categories={categories}
+          submitLabel="Create Product"
+          isSaving={saveProduct.isPending}
+          onSubmit={handleSubmit}
+        />
+      );
+    }
+    if (Number.isNaN(productId)) return <p className="text-gray-600">This product doesn't exist.</p>;
+    if (isPending) return <Skeleton className="h-96 rounded-lg" />;
+    if (isError) return <LoadError message="We couldn't load this product." onRetry={() => refetch()} />;
+    if (!product) return <p className="text-gray-600">This product doesn't exist.</p>;
+    return (
+      <ProductForm
+        defaultValues={toProductFormValues(product)}
+        categories={categories}
+        submitLabel="Save Changes"
+        isSaving={saveProduct.isPending}
+        onSubmit={handleSubmit}
+      />
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Navbar />
+
+      <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <Link to="/admin/products" className="text-blue-600 hover:text-blue-700 font-medium mb-8 inline-block">
+          ← Back to Products
+        </Link>
+        <h1 className="text-3xl font-bold text-black mb-8">
+          {productId === undefined ? 'New Product' : product ? `Edit ${product.name}` : 'Edit Product'}
+        </h1>
+        {product?.archived && (
+          <p className="mb-6 text-sm text-gray-600 bg-yellow-50 border border-yellow-200 rounded-lg p-4">
+            This product is archived and hidden from the store.
+          </p>
+        )}
+        {renderBody()}
+      </div>
+
+      <Footer />
+    </div>
+  );
+};
+
+export default AdminProductEditor;
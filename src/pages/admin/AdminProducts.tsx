@@ -0,0 +1,126 @@
+import React, { useState } from 'react';
+import { Link } from 'react-router-dom';
+import Navbar from '../../components/Navbar';
+import Footer from '../../components/Footer';
+import LoadError from '../../components/LoadError';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Switch } from '@/components/ui/switch';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useAdminProducts, useSetProductArchived } from '@/hooks/use-products';
+import { getPriceRange } from '@/lib/catalog';
+import type { Product } from '@/utils/mockData';
+import { toast } from 'sonner';
+
+const AdminProducts = () => {
+  const { data: products = [], isPending, isError, refetch } = useAdminProducts();
+  const setArchived = useSetProductArchived();
+  const [showArchived, setShowArchived] = useState(false);
+  const visible = products.filter(product => showArchived || !product.archived);
+
+  const toggleArchived = async (product: Product) => {
+    try {
+      await setArchived.mutateAsync({ id: product.id, archived: !product.archived });
+      toast.success(product.archived ? `${product.name} is back in the store` : `${product.name} archived`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'We could not update the product');
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Navbar />
+
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="flex flex-wrap justify-between items-center gap-4 mb-8">
+          <h1 className="text-3xl font-bold text-black">Products</h1>
+          <div className="flex items-center gap-6">
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <Switch checked={showArchived} onCheckedChange={setShowArchived} />
+              Show archived
+            </label>
+            <Link
+              to="/admin/products/new"
+              className="bg-black text-white px-6 py-3 rounded-lg font-semibold hover:bg-gray-800 transition-colors"
+            >
+              New Product
+            </Link>
+          </div>
+        </div>
+
+        {isPending ? (
+          <div className="space-y-3">
+            {Array.from({ length: 4 }, (_, index) => (
+              <Skeleton key={index} className="h-16 rounded-lg" />
+            ))}
+          </div>
+        ) : isError ? (
+          <LoadError message="We couldn't load products." onRetry={() => refetch()} />
+        ) : (
+          <div className="bg-white rounded-lg shadow-sm border border-gray-100">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Product</TableHead>
+                  <TableHead>Category</TableHead>
+                  <TableHead>Price</TableHead>
+                  <TableHead>Stock</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {visible.map((product) => {
+                  const [minPrice, maxPrice] = getPriceRange(product);
+                  const stock = product.variants.reduce((total, variant) => total + variant.stock, 0);
+                  return (
+                    <TableRow key={product.id} className={product.archived ? 'text-gray-400' : undefined}>
+                      <TableCell>
+                        <div className="flex items-center gap-3">
+                          <img src={product.image} alt="" className="w-12 h-12 rounded object-cover" />
+                          <Link to={`/admin/products/${product.id}/edit`} className="font-semibold hover:text-blue-600">
+                            {product.name}
+                          </Link>
+                        </div>
+                      </TableCell>
+                      <TableCell>{product.category}</TableCell>
+                      <TableCell>{minPrice === maxPrice ? `$${minPrice}` : `$${minPrice}–$${maxPrice}`}</TableCell>
+                      <TableCell>
+                        {stock === 0 ? <span className="text-red-600 font-medium">Sold out</span> : stock}
+                      </TableCell>
+                      <TableCell>{product.archived ? 'Archived' : 'Active'}</TableCell>
+                      <TableCell className="text-right space-x-4 whitespace-nowrap">
+                        <Link to={`/admin/products/${product.id}/edit`} className="text-blue-600 hover:text-blue-700 font-medium">
+                          Edit
+                        </Link>
+                        <button
+                          onClick={() => toggleArchived(product)}
+                          disabled={setArchived.isPending}
+                          className={`font-medium disabled:opacity-60 ${
+                            product.archived ? 'text-blue-600 hover:text-blue-700' : 'text-red-600 hover:text-red-700'
+                          }`}
+                        >
+                          {product.archived ? 'Restore' : 'Archive'}
+                        </button>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+                {visible.length === 0 && (
+                  <TableRow>
+                    <TableCell colSpan={6} className="text-center text-gray-500 py-12">
+                      No products yet.
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </div>
+
+      <Footer />
+    </div>
+  );
+};
+
+export default AdminProducts;
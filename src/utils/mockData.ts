@@ -1,81 +1,199 @@
 
+export interface ProductVariant {
+  sku: string;
+  size: string;
+  color: string;
+  stock: number;
+  // Overrides the product's base price for this size/color when set.
+  price?: number;
+}
+
+export interface ProductImage {
+  url: string;
+  alt: string;
+  // Shown only while this color is selected; images without a color are shown for every color.
+  color?: string;
+}
+
 export interface Product {
   id: number;
   name: string;
   price: number;
+  // Primary thumbnail, used by the cart and order summaries.
   image: string;
+  // Gallery images in display order.
+  images: ProductImage[];
   category: string;
   description: string;
   sizes: string[];
   colors: string[];
-  inStock: boolean;
+  variants: ProductVariant[];
+  // Shipping weight of one unit, in grams.
+  weight: number;
+  // When the product was added to the catalog (ISO 8601).
+  createdAt: string;
+  // Archived products are hidden from the storefront but kept for the back office and past orders.
+  archived?: boolean;
 }
 
+const DEFAULT_STOCK = 12;
+
+const photo = (photoId: string) =>
+  `https://images.unsplash.com/photo-${photoId}?w=1200&h=1200&fit=crop&crop=center`;
+
+// A zoomed crop of the same photo, for collar and fabric close-ups.
+const detailPhoto = (photoId: string, focusY: number) =>
+  `https://images.unsplash.com/photo-${photoId}?w=1200&h=1200&fit=crop&crop=focalpoint&fp-x=0.5&fp-y=${focusY}&fp-z=2.5`;
+
+const buildVariants = (
+  productId: number,
+  sizes: string[],
+  colors: string[],
+  overrides: Record<string, Partial<Omit<ProductVariant, "sku" | "size" | "color">>> = {}
+): ProductVariant[] =>
+  sizes.flatMap(size =>
+    colors.map(color => ({
+      sku: `TX${productId}-${size}-${color.toUpperCase().replace(/[^A-Z0-9]/g, "")}`,
+      size,
+      color,
+      stock: DEFAULT_STOCK,
+      ...overrides[`${size}:${color}`],
+    }))
+  );
+
 export const mockProducts: Product[] = [
   {
     id: 1,
     name: "Classic White Dress Shirt",
     price: 89,
     image: "https://images.unsplash.com/photo-1602810319428-019690571b5b?w=400&h=400&fit=crop&crop=center",
+    images: [
+      { url: photo("1602810319428-019690571b5b"), alt: "Classic White Dress Shirt, front", color: "White" },
+      { url: detailPhoto("1602810319428-019690571b5b", 0.2), alt: "Classic White Dress Shirt, collar detail", color: "White" },
+      { url: detailPhoto("1602810319428-019690571b5b", 0.6), alt: "Classic White Dress Shirt, fabric close-up" },
+    ],
     category: "Formal",
     description: "A timeless white dress shirt perfect for business meetings and formal occasions. Made from premium cotton with a comfortable fit.",
     sizes: ["S", "M", "L", "XL", "XXL"],
     colors: ["White", "Light Blue"],
-    inStock: true,
+    weight: 280,
+    createdAt: "2025-09-01T00:00:00Z",
+    variants: buildVariants(1, ["S", "M", "L", "XL", "XXL"], ["White", "Light Blue"], {
+      "XL:White": { stock: 0 },
+      "S:Light Blue": { stock: 2 },
+      "XXL:White": { price: 95 },
+      "XXL:Light Blue": { price: 95 },
+    }),
   },
   {
     id: 2,
     name: "Casual Navy Blue Shirt",
     price: 65,
     image: "https://images.unsplash.com/photo-1596755094514-f87e34085b2c?w=400&h=400&fit=crop&crop=center",
+    images: [
+      { url: photo("1596755094514-f87e34085b2c"), alt: "Casual Navy Blue Shirt, front", color: "Navy" },
+      { url: detailPhoto("1596755094514-f87e34085b2c", 0.2), alt: "Casual Navy Blue Shirt, collar detail", color: "Navy" },
+      { url: photo("1521572163474-6864f9cf17ab"), alt: "Casual Navy Blue Shirt, front", color: "Black" },
+      { url: detailPhoto("1521572163474-6864f9cf17ab", 0.2), alt: "Casual Navy Blue Shirt, collar detail", color: "Black" },
+      { url: detailPhoto("1596755094514-f87e34085b2c", 0.6), alt: "Casual Navy Blue Shirt, fabric close-up" },
+    ],
     category: "Casual",
     description: "Comfortable navy blue shirt perfect for casual outings. Soft fabric blend with a relaxed fit.",
     sizes: ["S", "M", "L", "XL"],
     colors: ["Navy", "Black", "Gray"],
-    inStock: true,
+    weight: 240,
+    createdAt: "2025-11-15T00:00:00Z",
+    variants: buildVariants(2, ["S", "M", "L", "XL"], ["Navy", "Black", "Gray"], {
+      "XL:Navy": { stock: 0 },
+      "S:Gray": { stock: 0 },
+      "M:Black": { stock: 3 },
+    }),
   },
   {
     id: 3,
     name: "Striped Business Shirt",
     price: 95,
     image: "https://images.unsplash.com/photo-1586790170083-2f9ceadc732d?w=400&h=400&fit=crop&crop=center",
+    images: [
+      { url: photo("1586790170083-2f9ceadc732d"), alt: "Striped Business Shirt, front", color: "Blue/White" },
+      { url: detailPhoto("1586790170083-2f9ceadc732d", 0.2), alt: "Striped Business Shirt, collar detail", color: "Blue/White" },
+      { url: detailPhoto("1586790170083-2f9ceadc732d", 0.6), alt: "Striped Business Shirt, stripe close-up" },
+    ],
     category: "Business",
     description: "Professional striped shirt that adds sophistication to your business wardrobe. Premium quality fabric.",
     sizes: ["M", "L", "XL", "XXL"],
     colors: ["Blue/White", "Gray/White"],
-    inStock: true,
+    weight: 300,
+    createdAt: "2026-02-10T00:00:00Z",
+    variants: buildVariants(3, ["M", "L", "XL", "XXL"], ["Blue/White", "Gray/White"], {
+      "M:Gray/White": { stock: 0 },
+      "XXL:Blue/White": { price: 101 },
+      "XXL:Gray/White": { price: 101 },
+    }),
   },
   {
     id: 4,
     name: "Premium Black Shirt",
     price: 79,
     image: "https://images.unsplash.com/photo-1521572163474-6864f9cf17ab?w=400&h=400&fit=crop&crop=center",
+    images: [
+      { url: photo("1521572163474-6864f9cf17ab"), alt: "Premium Black Shirt, front", color: "Black" },
+      { url: detailPhoto("1521572163474-6864f9cf17ab", 0.2), alt: "Premium Black Shirt, collar detail", color: "Black" },
+      { url: detailPhoto("1521572163474-6864f9cf17ab", 0.6), alt: "Premium Black Shirt, fabric close-up" },
+    ],
     category: "Premium",
     description: "Elegant black shirt suitable for both formal and casual occasions. High-quality fabric with excellent drape.",
     sizes: ["S", "M", "L", "XL"],
     colors: ["Black", "Charcoal"],
-    inStock: true,
+    weight: 260,
+    createdAt: "2026-05-20T00:00:00Z",
+    variants: buildVariants(4, ["S", "M", "L", "XL"], ["Black", "Charcoal"], {
+      "S:Charcoal": { stock: 0 },
+      "XL:Black": { stock: 1 },
+    }),
   },
   {
     id: 5,
     name: "Cotton Check Shirt",
     price: 72,
     image: "https://images.unsplash.com/photo-1603252109612-ffd69d6080c6?w=400&h=400&fit=crop&crop=center",
+    images: [
+      { url: photo("1603252109612-ffd69d6080c6"), alt: "Cotton Check Shirt, front", color: "Red/White" },
+      { url: detailPhoto("1603252109612-ffd69d6080c6", 0.2), alt: "Cotton Check Shirt, collar detail", color: "Red/White" },
+      { url: detailPhoto("1603252109612-ffd69d6080c6", 0.6), alt: "Cotton Check Shirt, check close-up" },
+    ],
     category: "Casual",
     description: "Comfortable cotton check shirt perfect for weekend wear. Classic pattern with modern fit.",
     sizes: ["S", "M", "L", "XL", "XXL"],
     colors: ["Red/White", "Blue/White", "Green/White"],
-    inStock: true,
+    weight: 250,
+    createdAt: "2026-07-08T00:00:00Z",
+    variants: buildVariants(5, ["S", "M", "L", "XL", "XXL"], ["Red/White", "Blue/White", "Green/White"], {
+      "S:Red/White": { stock: 4 },
+      "XXL:Red/White": { price: 78 },
+      "XXL:Blue/White": { price: 78 },
+      "XXL:Green/White": { price: 78, stock: 0 },
+    }),
   },
   {
     id: 6,
     name: "Linen Summer Shirt",
     price: 85,
     image: "https://images.unsplash.com/photo-1598300042247-d088f8ab3a91?w=400&h=400&fit=crop&crop=center",
+    images: [
+      { url: photo("1598300042247-d088f8ab3a91"), alt: "Linen Summer Shirt, front", color: "Beige" },
+      { url: detailPhoto("1598300042247-d088f8ab3a91", 0.2), alt: "Linen Summer Shirt, collar detail", color: "Beige" },
+      { url: detailPhoto("1598300042247-d088f8ab3a91", 0.6), alt: "Linen Summer Shirt, linen close-up" },
+    ],
     category: "Summer",
     description: "Lightweight linen shirt perfect for summer days. Breathable fabric with a relaxed, comfortable fit.",
     sizes: ["M", "L", "XL"],
     colors: ["Beige", "White", "Light Blue"],
-    inStock: true,
+    weight: 190,
+    createdAt: "2026-09-22T00:00:00Z",
+    variants: buildVariants(6, ["M", "L", "XL"], ["Beige", "White", "Light Blue"], {
+      "XL:Beige": { stock: 0 },
+      "M:White": { stock: 2 },
+    }),
   },
 ];
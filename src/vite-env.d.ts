@@ -1 +1,10 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_CATALOG_API_URL?: string;
+  readonly VITE_ORDERS_API_URL?: string;
+  readonly VITE_REVIEWS_API_URL?: string;
+  readonly VITE_MERCHANDISING_API_URL?: string;
+  // "true" seeds the demo admin account outside development.
+  readonly VITE_SEED_DEMO_ADMIN?: string;
+}